@@ -0,0 +1,43 @@
+'use strict';
+
+/* Dependencies */
+import { EventEmitter } from 'events';
+
+/* Functions */
+/**
+ * Returns an `AbortController`, or on Node versions without one (before 15), a stand-in whose signal supports `aborted`, `addEventListener` and `removeEventListener`, which is all the rate limiter, retry delays and axios use.
+ */
+export const createAbortController = (): AbortControllerLike => {
+	if(typeof(AbortController) !== 'undefined'){
+		return new AbortController();
+	}
+
+	const emitter = new EventEmitter();
+
+	const signal = {
+		aborted: false,
+		addEventListener: (type: string, listener: () => void) => {
+			emitter.on(type, listener);
+		},
+		removeEventListener: (type: string, listener: () => void) => {
+			emitter.removeListener(type, listener);
+		}
+	};
+
+	return {
+		signal: signal as unknown as AbortSignal,
+		abort: () => {
+			if(!signal.aborted){
+				signal.aborted = true;
+
+				emitter.emit('abort');
+			}
+		}
+	};
+};
+
+/* Interfaces / Types */
+export interface AbortControllerLike {
+	readonly signal: AbortSignal;
+	abort: () => void;
+}
@@ -4,14 +4,58 @@
 import merge from 'deepmerge';
 import OAuth from 'oauth-1.0a';
 import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import http from 'http';
+import { URL } from 'url';
 import {
 	parse as parseQueryString
 } from 'querystring';
 import { debug } from 'debug';
-import { Throttle } from 'generic-throttle';
 import axios, {
 	AxiosRequestConfig
 } from 'axios';
+import {
+	StoredToken,
+	TokenStore
+} from './token-store';
+import {
+	ETradeAbortError,
+	ETradeAuthError,
+	ETradeError,
+	ETradeErrorDetails,
+	ETradeNetworkError,
+	ETradeNotFoundError,
+	ETradeOrderRejectedError,
+	ETradeRiskError,
+	ETradeTimeoutError,
+	ETradeValidationError
+} from './errors';
+import { createAbortController } from './abort-controller';
+import { PriorityThrottle } from './priority-throttle';
+import { OrderBuilder } from './order-builder';
+import {
+	PaperBroker,
+	PaperOptions
+} from './paper-broker';
+import {
+	RiskGuard,
+	RiskOptions
+} from './risk-guard';
+import { OrderJournal } from './order-journal';
+import { OrderTracker } from './order-tracker';
+import {
+	SessionManager,
+	SessionOptions
+} from './session-manager';
+import {
+	formatEasternDate,
+	fromEasternTime
+} from './market-time';
+import {
+	OptionContract,
+	parseOptionDisplaySymbol,
+	parseOsiSymbol
+} from './osi';
 
 /* Debug */
 const debugRequest = debug('e-trade:request');
@@ -20,11 +64,319 @@ const debugResponse = debug('e-trade:response');
 /* Globals */
 const VERSION = require('../package.json').version;
 
+const MODIFIABLE_STATUSES: orderStatus[] = [ 'OPEN', 'PARTIAL' ];
+const CANCELLABLE_STATUSES: orderStatus[] = [ 'OPEN', 'PARTIAL' ];
+const LIMIT_PRICE_TYPES: orderPriceType[] = [ 'LIMIT', 'STOP_LIMIT', 'LIMIT_ON_OPEN', 'LIMIT_ON_CLOSE', 'NET_DEBIT', 'NET_CREDIT' ];
+const STOP_PRICE_TYPES: orderPriceType[] = [ 'STOP', 'STOP_LIMIT' ];
+
+/* Helpers */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+	return new Promise((resolve) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+
+			resolve();
+		};
+
+		const timer = setTimeout(() => {
+			if(signal){
+				signal.removeEventListener('abort', onAbort);
+			}
+
+			resolve();
+		}, ms);
+
+		if(signal){
+			signal.addEventListener('abort', onAbort);
+		}
+	});
+};
+
+const normalizeOptionDetails = (details: OptionDetails, underlying: string, expiry: number, callPut: OptionContract['callPut']): OptionSurfaceContract => {
+	const contract = (details.osiKey && parseOsiSymbol(details.osiKey)) || (details.displaySymbol && parseOptionDisplaySymbol(details.displaySymbol)) || {
+		underlying: underlying.toUpperCase(),
+		expiry: new Date(expiry),
+		callPut: callPut,
+		strike: +details.strikePrice
+	};
+
+	const bid = +details.bid || 0;
+	const ask = +details.ask || 0;
+	const greeks = details.OptionGreeks;
+
+	return {
+		...contract,
+		osiKey: details.osiKey,
+		displaySymbol: details.displaySymbol,
+		bid: bid,
+		ask: ask,
+		mid: ask > 0 ? (bid + ask) / 2 : undefined,
+		bidSize: details.bidSize,
+		askSize: details.askSize,
+		last: details.lastPrice,
+		netChange: details.netChange,
+		volume: details.volume,
+		openInterest: details.openInterest,
+		inTheMoney: ('' + details.inTheMoney).toLowerCase() === 'y',
+		greeks: greeks ? {
+			delta: greeks.delta,
+			gamma: greeks.gamma,
+			theta: greeks.theta,
+			vega: greeks.vega,
+			rho: greeks.rho,
+			iv: greeks.iv
+		} : undefined,
+		timeStamp: details.timeStamp
+	};
+};
+
+const getPreviewMessages = (preview: PreviewOrderResponse): Message[] => {
+	const messages: Message[] = [];
+
+	if(preview.messageList && preview.messageList.Message){
+		messages.push(...preview.messageList.Message);
+	}
+
+	(preview.Order || []).forEach((order) => {
+		if(order.Messages && order.Messages.Message){
+			messages.push(...order.Messages.Message);
+		}
+	});
+
+	return messages;
+};
+
+/**
+ * Error for an order that can no longer be changed, `undefined` while it's open.
+ */
+const getUnmodifiableError = (order: Order): ETradeOrderRejectedError | undefined => {
+	const detail = (order.OrderDetail || [])[0];
+
+	if(!detail || MODIFIABLE_STATUSES.includes(detail.status)){
+		return undefined;
+	}
+
+	return new ETradeOrderRejectedError(`Order ${order.orderId} is ${detail.status} and can't be modified`, {
+		code: detail.status,
+		raw: order
+	});
+};
+
+const getOrderStatus = (order: Order): orderStatus | undefined => {
+	const detail = (order.OrderDetail || [])[0];
+
+	return detail ? detail.status : undefined;
+};
+
+/**
+ * Whether the order is one `flattenPositions` places to close a position.
+ */
+const isClosingContext = (callOptions: CallOptions | undefined): boolean => {
+	return !!callOptions && !!(callOptions as RequestContext).closing;
+};
+
+const getOrderSymbols = (order: Order): string[] => {
+	const symbols: string[] = [];
+
+	(order.OrderDetail || []).forEach((detail) => {
+		(detail.Instrument || []).forEach((instrument) => {
+			if(instrument.Product && instrument.Product.symbol && !symbols.includes(instrument.Product.symbol)){
+				symbols.push(instrument.Product.symbol);
+			}
+		});
+	});
+
+	return symbols;
+};
+
+const applyOrderPatch = (detail: OrderDetail, { limitPrice, stopPrice, quantity, orderTerm, allOrNone }: OrderPatch): Partial<OrderDetail> => {
+	const instruments = detail.Instrument || [];
+	const quantities = quantity === undefined ? [] : (Array.isArray(quantity) ? quantity : [ quantity ]);
+
+	if(quantities.length > 0 && quantities.length !== instruments.length){
+		throw new ETradeValidationError(`Expected ${instruments.length} quantities, one per leg, got ${quantities.length}`);
+	}
+
+	const patched: Partial<OrderDetail> = {
+		...detail,
+		Instrument: instruments.map((instrument, i) => {
+			return {
+				...instrument,
+				quantity: quantities.length > 0 ? quantities[i] : +(instrument.orderedQuantity || instrument.quantity || 0)
+			};
+		})
+	};
+
+	if(limitPrice !== undefined){
+		if(!LIMIT_PRICE_TYPES.includes(detail.priceType)){
+			throw new ETradeValidationError(`${detail.priceType} orders have no limitPrice to change`);
+		}
+
+		patched.limitPrice = limitPrice;
+	}
+
+	if(stopPrice !== undefined){
+		if(!STOP_PRICE_TYPES.includes(detail.priceType)){
+			throw new ETradeValidationError(`${detail.priceType} orders have no stopPrice to change`);
+		}
+
+		patched.stopPrice = stopPrice;
+	}
+
+	if(orderTerm !== undefined){
+		patched.orderTerm = orderTerm;
+	}
+
+	if(allOrNone !== undefined){
+		patched.allOrNone = allOrNone;
+	}
+
+	return patched;
+};
+
+const getPlacedOrderId = (response: PlaceOrderResponse | undefined): number | undefined => {
+	const orderIds = response && response.OrderIds;
+
+	return orderIds && orderIds.length > 0 ? orderIds[0].orderId : undefined;
+};
+
+/**
+ * Whether a failed request may still have been processed by E-Trade.
+ */
+const isAmbiguousError = (err: any): boolean => {
+	// Raised before anything was sent
+	if(err instanceof ETradeRiskError || err instanceof ETradeValidationError){
+		return false;
+	}
+
+	if(err instanceof ETradeAbortError || err instanceof ETradeNetworkError){
+		return true;
+	}
+
+	return !(err instanceof ETradeError) || !err.status || err.status >= 500;
+};
+
+const sanitizeParams = (params: Record<string, any> | undefined): Record<string, any> => {
+	const sanitized: Record<string, any> = {};
+
+	Object.keys(params || {}).filter((key) => {
+		return !key.startsWith('oauth_');
+	}).forEach((key) => {
+		sanitized[key] = params![key];
+	});
+
+	return sanitized;
+};
+
+const createAbortScope = (timeout: number | undefined, signal: AbortSignal | undefined, details: ETradeErrorDetails): AbortScope | undefined => {
+	if(!timeout && !signal){
+		return undefined;
+	}
+
+	const controller = createAbortController();
+
+	let timer: NodeJS.Timeout | undefined;
+
+	const scope: AbortScope = {
+		signal: controller.signal,
+		error: undefined,
+		dispose: () => {
+			if(timer){
+				clearTimeout(timer);
+			}
+
+			if(signal){
+				signal.removeEventListener('abort', onAbort);
+			}
+		}
+	};
+
+	const abort = (err: ETradeAbortError) => {
+		if(!scope.error){
+			scope.error = err;
+
+			controller.abort();
+		}
+	};
+
+	const onAbort = () => {
+		abort(new ETradeAbortError('Request aborted', details));
+	};
+
+	if(signal){
+		if(signal.aborted){
+			onAbort();
+		}else{
+			signal.addEventListener('abort', onAbort);
+		}
+	}
+
+	if(timeout){
+		timer = setTimeout(() => {
+			abort(new ETradeTimeoutError(`Request timed out after ${timeout}ms`, details));
+		}, timeout);
+	}
+
+	return scope;
+};
+
+const isMergeableObject = (value: any): boolean => {
+	if(Array.isArray(value)){
+		return true;
+	}
+
+	if(!value || typeof(value) !== 'object'){
+		return false;
+	}
+
+	const proto = Object.getPrototypeOf(value);
+
+	return proto === Object.prototype || proto === null;
+};
+
+const mergeOptions: merge.Options = {
+	// Class instances (token stores, etc) must be passed through as-is
+	isMergeableObject: isMergeableObject,
+	// Arrays in options replace the defaults instead of being concatenated
+	arrayMerge: (_target, source) => {
+		return source;
+	}
+};
+
 /* Main Class */
-export class ETrade {
+export class ETrade extends EventEmitter {
 
 	static VERSION: string = VERSION;
 
+	/**
+	 * Rate limit bucket each API method is throttled by.
+	 */
+	static operations: Record<ETradeOperation, ETradeBucket> = {
+		getAccessToken: 'oauth',
+		renewAccessToken: 'oauth',
+		requestToken: 'oauth',
+		revokeAccessToken: 'oauth',
+		cancelOrder: 'orders',
+		changePreviewedOrder: 'orders',
+		deleteAlert: 'alerts',
+		getAccountBalances: 'accounts',
+		getOptionChains: 'market',
+		getOptionExpireDates: 'market',
+		getQuotes: 'market',
+		listAccounts: 'accounts',
+		listAlertDetails: 'alerts',
+		listAlerts: 'alerts',
+		listOrders: 'orders',
+		listTransactionDetails: 'accounts',
+		listTransactions: 'accounts',
+		lookupProduct: 'market',
+		placeChangedOrder: 'orders',
+		placeOrder: 'orders',
+		previewOrder: 'orders',
+		viewLotsDetails: 'accounts',
+		viewPortfolio: 'accounts'
+	};
+
 	static defaults: ETradeOptions = {
 		mode: 'dev',
 
@@ -44,19 +396,79 @@ export class ETrade {
 		connectionLimitPeriod: 1000,
 		errorOnConnectionLimit: false,
 
-		proxy: false
+		buckets: {
+			accounts: {},
+			market: {},
+			orders: {},
+			alerts: {},
+			oauth: {}
+		},
+
+		priorities: {
+			cancelOrder: 10,
+			placeOrder: 10,
+			placeChangedOrder: 10,
+			previewOrder: 5,
+			changePreviewedOrder: 5
+		},
+
+		proxy: false,
+
+		timeout: 0,
+
+		retry: {
+			attempts: 3,
+			minDelay: 250,
+			maxDelay: 5000,
+			factor: 2,
+			jitter: true,
+			methods: [ 'GET' ],
+			statusCodes: [ 429, 500, 502, 503, 504 ],
+			errorCodes: [ 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN' ]
+		},
+
+		tokenStore: undefined,
+
+		orderJournal: undefined,
+
+		session: {},
+
+		risk: {},
+
+		paper: {},
+
+		onAuthFailure: undefined
 	};
 
 	public settings: ETradeOptions;
+	public session: SessionManager;
+	public risk: RiskGuard;
+	public paper: PaperBroker;
 
 	private _id: number = 0;
-	private throttle: Throttle;
+	private buckets: Record<ETradeBucket, PriorityThrottle>;
 	private oauth: OAuth;
+	private tokenLoad: Promise<StoredToken | undefined>;
+	private authGeneration: number = 0;
+	private reauthorizing: Promise<void> | undefined;
+	private placing: Map<string, Promise<PlaceOrderResponse>> = new Map();
+
+	constructor(options?: ETradeInitOptions){
+		super();
+
+		this.settings = merge<ETradeOptions, ETradeInitOptions>(ETrade.defaults, options || {}, mergeOptions);
 
-	constructor(options?: Partial<ETradeOptions>){
-		this.settings = merge(ETrade.defaults, options || {});
+		this.buckets = {} as Record<ETradeBucket, PriorityThrottle>;
 
-		this.throttle = new Throttle(this.settings.connectionLimit, this.settings.connectionLimitPeriod, this.settings.errorOnConnectionLimit);
+		(Object.keys(ETrade.defaults.buckets) as ETradeBucket[]).forEach((name) => {
+			const bucket = this.settings.buckets[name] || {};
+
+			this.buckets[name] = new PriorityThrottle(
+				bucket.limit !== undefined ? bucket.limit : this.settings.connectionLimit,
+				bucket.period !== undefined ? bucket.period : this.settings.connectionLimitPeriod,
+				this.settings.errorOnConnectionLimit
+			);
+		});
 
 		this.oauth = new OAuth({
 			consumer: {
@@ -68,12 +480,28 @@ export class ETrade {
 				return crypto.createHmac('sha1', key).update(base_string).digest('base64');
 			}
 		});
+
+		this.session = new SessionManager(this, this.settings.session);
+		this.risk = new RiskGuard(this, this.settings.risk);
+		this.paper = new PaperBroker(this, this.settings.paper);
+
+		// Explicitly provided tokens take precedence over stored ones
+		if(this.settings.accessToken){
+			this.tokenLoad = Promise.resolve(undefined);
+
+			this.session.start();
+		}else{
+			this.tokenLoad = this.loadToken();
+		}
+
+		// Load failures are surfaced by the first request instead
+		this.tokenLoad.catch(() => {});
 	}
 
 	private getBasicRequest(requestOptions?: AxiosRequestConfig): AxiosRequestConfig {
 		return merge({
 			method: 'GET',
-			baseURL: this.settings.mode === 'prod' ? this.settings.urls.prod : this.settings.urls.dev,
+			baseURL: this.settings.mode === 'dev' ? this.settings.urls.dev : this.settings.urls.prod,
 			headers: {
 				'User-Agent': `node-e-trade/v${VERSION} nodejs/${process.version}`
 			},
@@ -117,47 +545,754 @@ export class ETrade {
 		});
 	}
 
-	private async request<T>(options: AxiosRequestConfig): Promise<T> {
-		return await this.throttle.acquire(async () => {
-			const id = 0 + (++this._id);
+	private async request<T>(operation: ETradeOperation, options: AxiosRequestConfig, context: RequestContext = {}): Promise<T> {
+		// Market data and everything else still comes from the production API
+		if(this.settings.mode === 'paper' && PaperBroker.operations.includes(operation)){
+			// The simulation answers with the same envelope the operation's caller unwraps
+			return (await this.paper.handle(operation, options, this)) as unknown as T;
+		}
 
-			debugRequest(id, options);
+		const timeout = context.timeout !== undefined ? context.timeout : this.settings.timeout;
+
+		const scope = createAbortScope(timeout, context.signal, {
+			endpoint: [
+				options.baseURL || '',
+				options.url || ''
+			].join(''),
+			method: (options.method || 'GET').toUpperCase()
+		});
+
+		try {
+			return await this.attempt<T>(operation, options, context, scope);
+		}finally{
+			if(scope){
+				scope.dispose();
+			}
+		}
+	}
+
+	private async attempt<T>(operation: ETradeOperation, options: AxiosRequestConfig, { token, omit = false, priority = this.settings.priorities[operation] || 0 }: RequestContext, scope: AbortScope | undefined): Promise<T> {
+		await this.tokenLoad;
+
+		const bucket = this.buckets[ETrade.operations[operation]];
+
+		const useAccessToken = token === undefined || token === true;
+
+		let attempt = 0;
+		let replayed = false;
+		let event: RequestEvent | undefined;
+
+		while(true){
+			let authGeneration = this.authGeneration;
+
+			++attempt;
+
+			if(scope && scope.error){
+				throw scope.error;
+			}
 
 			try {
-				const results = (await axios.request(options)).data;
+				return await bucket.acquire(async () => {
+					// Hold requests using the access token while it's being replaced
+					if(useAccessToken && this.reauthorizing){
+						await this.reauthorizing;
+					}
 
-				debugResponse(id, results);
+					authGeneration = this.authGeneration;
 
-				return results;
-			}catch(err: any){
-				if(err.response){
-					const nErr: ETradeError = new Error(err.response.statusText);
+					const id = 0 + (++this._id);
+
+					this.signRequest(options, token, omit);
+
+					debugRequest(id, options);
+
+					event = {
+						id: id,
+						operation: operation,
+						bucket: ETrade.operations[operation],
+						method: (options.method || 'GET').toUpperCase(),
+						endpoint: [
+							options.baseURL || '',
+							options.url || ''
+						].join(''),
+						params: sanitizeParams(options.params),
+						attempt: attempt
+					};
 
-					nErr.code = err.response.status;
+					this.emit('request', event);
 
-					if(err.response.data.Error){
-						if(err.response.data.Error.code){
-							nErr.code = err.response.data.Error.code;
+					const started = Date.now();
+
+					try {
+						const response = await axios.request(scope ? {
+							...options,
+							signal: scope.signal
+						} : options);
+
+						const results = response.data;
+
+						debugResponse(id, results);
+
+						this.emit('response', {
+							...event,
+							status: response.status,
+							duration: Date.now() - started
+						});
+
+						if(useAccessToken){
+							this.session.touch();
+						}
+
+						return results;
+					}catch(err: any){
+						err = scope && scope.error ? scope.error : ETradeError.from(err, options, id);
+
+						// A request signed before the credentials were replaced says nothing about the new ones
+						if(err instanceof ETradeAuthError && useAccessToken && authGeneration === this.authGeneration){
+							this.session.expire('rejected');
 						}
 
-						nErr.message = err.response.data.Error.message;
+						debugResponse(id, err);
+
+						// An unhandled 'error' event would throw, only emit it to listeners
+						if(this.listenerCount('error') > 0){
+							this.emit('error', {
+								...event,
+								status: err.status,
+								duration: Date.now() - started,
+								error: err
+							});
+						}
+
+						throw err;
+					}
+				}, {
+					priority: priority,
+					signal: scope && scope.signal,
+					onQueued: (queued: number) => {
+						this.emit('throttled', {
+							operation: operation,
+							bucket: ETrade.operations[operation],
+							priority: priority,
+							queued: queued
+						});
 					}
+				});
+			}catch(err: any){
+				if(scope && scope.error){
+					throw scope.error;
+				}
 
-					nErr.raw = err.response.data;
+				if(this.shouldRetry(options, err, attempt)){
+					const wait = this.getRetryDelay(err, attempt);
 
-					err = nErr;
+					debugRequest('retry', attempt, wait, err.status || err.code);
+
+					if(event){
+						this.emit('retry', {
+							...event,
+							delay: wait,
+							error: err
+						});
+					}
+
+					await delay(wait, scope && scope.signal);
+
+					continue;
+				}
+
+				if(!useAccessToken || replayed || !(err instanceof ETradeAuthError) || !this.settings.onAuthFailure){
+					throw err;
 				}
 
-				debugResponse(id, err);
+				replayed = true;
 
-				throw err;
+				if(!(await this.reauthorize(err, authGeneration))){
+					throw err;
+				}
 			}
+		}
+	}
+
+	private shouldRetry(options: AxiosRequestConfig, err: any, attempt: number): boolean {
+		const retry = this.settings.retry;
+
+		if(attempt >= retry.attempts){
+			return false;
+		}
+
+		if(retry.methods.indexOf((options.method || 'GET').toUpperCase()) === -1){
+			return false;
+		}
+
+		if(err.status){
+			return retry.statusCodes.indexOf(err.status) !== -1;
+		}
+
+		return typeof(err.code) === 'string' && retry.errorCodes.indexOf(err.code) !== -1;
+	}
+
+	private getRetryDelay(err: any, attempt: number): number {
+		const retry = this.settings.retry;
+
+		let wait = Math.min(retry.maxDelay, retry.minDelay * Math.pow(retry.factor, attempt - 1));
+
+		if(retry.jitter){
+			wait = wait / 2 + Math.random() * wait / 2;
+		}
+
+		// Respect the server's requested wait on 429/503 responses
+		const retryAfter = err.headers ? +err.headers['retry-after'] : NaN;
+
+		if(!isNaN(retryAfter)){
+			wait = Math.max(wait, retryAfter * 1000);
+		}
+
+		return Math.round(wait);
+	}
+
+	private async reauthorize(err: ETradeError, authGeneration: number): Promise<boolean> {
+		// Credentials were already replaced since this request was signed, just replay it
+		if(authGeneration !== this.authGeneration){
+			return true;
+		}
+
+		if(!this.reauthorizing){
+			this.reauthorizing = (async () => {
+				try {
+					const credentials = await this.settings.onAuthFailure!(err, this);
+
+					if(credentials === false){
+						return;
+					}
+
+					if(credentials && credentials !== true){
+						this.settings.accessToken = credentials.accessToken;
+						this.settings.accessSecret = credentials.accessSecret;
+
+						this.session.start(credentials.issuedAt);
+
+						await this.saveToken(credentials);
+					}
+
+					++this.authGeneration;
+				}finally{
+					this.reauthorizing = undefined;
+				}
+			})();
+		}
+
+		await this.reauthorizing;
+
+		return authGeneration !== this.authGeneration;
+	}
+
+	private async saveToken(token: Partial<StoredToken>): Promise<void> {
+		if(!this.settings.tokenStore){
+			return;
+		}
+
+		const current = await this.settings.tokenStore.load();
+
+		await this.settings.tokenStore.save({
+			...(current && current.accessToken === token.accessToken ? current : {}),
+			...token
+		} as StoredToken);
+	}
+
+	/* Order Related Methods */
+
+	private async approvePreview(request: PreviewOrderRequest, preview: PreviewOrderResponse, approve: OrderApproval): Promise<boolean> {
+		const errors = getPreviewMessages(preview).filter((message) => {
+			return message.type === 'ERROR';
+		});
+
+		if(errors.length > 0){
+			throw new ETradeOrderRejectedError(errors.map((message) => {
+				return message.description;
+			}).join('; '), {
+				code: errors[0].code,
+				messages: errors,
+				raw: preview
+			});
+		}
+
+		if(!preview.PreviewIds || preview.PreviewIds.length === 0){
+			throw new ETradeOrderRejectedError(`Preview of order ${request.clientOrderId} returned no preview ids`, {
+				raw: preview
+			});
+		}
+
+		return !!await approve(preview, request);
+	}
+
+	private async journalPlaceOrder(request: PlaceOrderRequest, callOptions?: CallOptions): Promise<PlaceOrderResponse> {
+		const journal = this.settings.orderJournal;
+
+		if(!journal){
+			return this.sendPlaceOrder(request, await this.risk.check(request, callOptions, isClosingContext(callOptions)), callOptions);
+		}
+
+		const accountIdKey = request.accountIdKey;
+		const clientOrderId = '' + request.clientOrderId;
+		const entry = await journal.load(accountIdKey, clientOrderId);
+		const submittedAt = entry ? entry.submittedAt : Date.now();
+
+		if(entry){
+			if(entry.status === 'placed' && entry.response){
+				debugRequest('placeOrder', clientOrderId, 'already placed');
+
+				return entry.response;
+			}
+
+			// The last submission ended without a definitive answer, it may have been placed
+			const found = await this.findOrder(accountIdKey, clientOrderId, entry.submittedAt, callOptions);
+
+			if(found){
+				debugRequest('placeOrder', clientOrderId, 'found by listOrders');
+
+				await journal.save({
+					...entry,
+					status: 'placed',
+					response: found
+				});
+
+				return found;
+			}
+		}
+
+		// Orders stopped by the risk limits are never sent, so never journaled
+		const notional = await this.risk.check(request, callOptions, isClosingContext(callOptions));
+
+		await journal.save({
+			accountIdKey: accountIdKey,
+			clientOrderId: clientOrderId,
+			status: 'pending',
+			submittedAt: submittedAt
+		});
+
+		let response: PlaceOrderResponse;
+
+		try {
+			response = await this.sendPlaceOrder(request, notional, callOptions);
+		}catch(err){
+			// Only keep the entry if E-Trade may have received the order
+			if(!isAmbiguousError(err)){
+				await journal.remove(accountIdKey, clientOrderId);
+			}
+
+			throw err;
+		}
+
+		await journal.save({
+			accountIdKey: accountIdKey,
+			clientOrderId: clientOrderId,
+			status: 'placed',
+			submittedAt: submittedAt,
+			response: response
 		});
+
+		return response;
+	}
+
+	/**
+	 * Sends an order already checked against the risk limits, `notional` is what `risk.check` resolved with.
+	 */
+	private async sendPlaceOrder(request: PlaceOrderRequest, notional: number, callOptions?: CallOptions): Promise<PlaceOrderResponse> {
+		const { accountIdKey, orderType, order, clientOrderId, previewIds } = request;
+
+		const requestOptions = this.getBasicRequest({
+			method: 'POST',
+			url: `accounts/${accountIdKey}/orders/place.json`,
+			data: {
+				PlaceOrderRequest: {
+					orderType: orderType,
+					clientOrderId: clientOrderId,
+					Order: order,
+					PreviewIds: previewIds
+				}
+			}
+		});
+
+		const response = (await this.request<any>('placeOrder', requestOptions, {
+			...callOptions,
+			omit: true
+		})).PlaceOrderResponse;
+
+		this.risk.record(accountIdKey, notional, getPlacedOrderId(response));
+
+		return response;
+	}
+
+	/**
+	 * Looks up an order by `clientOrderId` with `listOrders`, from the day it was submitted on.
+	 */
+	private async findOrder(accountIdKey: string, clientOrderId: string, submittedAt: number, callOptions?: CallOptions): Promise<PlaceOrderResponse | undefined> {
+		const order = await this.searchOrders({
+			accountIdKey: accountIdKey,
+			fromDate: formatEasternDate(submittedAt),
+			toDate: formatEasternDate(Date.now())
+		}, (order) => {
+			return '' + order.clientOrderId === clientOrderId;
+		}, callOptions);
+
+		if(!order){
+			return undefined;
+		}
+
+		return {
+			orderType: order.orderType,
+			OrderIds: [{
+				orderId: order.orderId
+			}],
+			Order: order.OrderDetail,
+			clientOrderId: clientOrderId
+		} as PlaceOrderResponse;
+	}
+
+	/**
+	 * Looks up an order by id, among open orders first.
+	 */
+	private async loadOrder(accountIdKey: string, orderId: number, callOptions?: CallOptions): Promise<Order> {
+		const matches = (order: Order) => {
+			return order.orderId === orderId;
+		};
+
+		const order = await this.searchOrders({
+			accountIdKey: accountIdKey,
+			status: 'OPEN'
+		}, matches, callOptions) || await this.searchOrders({
+			accountIdKey: accountIdKey
+		}, matches, callOptions);
+
+		if(!order){
+			throw new ETradeNotFoundError(`Order ${orderId} not found`, {
+				code: 404
+			});
+		}
+
+		return order;
+	}
+
+	/**
+	 * Every order in one of `statuses` matching the filters, across all `listOrders` pages.
+	 */
+	private async listOpenOrders(request: ListOrdersRequest, statuses: orderStatus[], callOptions?: CallOptions): Promise<Order[]> {
+		const lists = await Promise.all(statuses.map(async (status) => {
+			const orders: Order[] = [];
+
+			let marker: string | undefined;
+
+			do {
+				const results = await this.listOrders({
+					...request,
+					status: status,
+					marker: marker
+				}, callOptions);
+
+				orders.push(...((results && results.Order) || []));
+
+				marker = results && results.next ? results.marker : undefined;
+			}while(marker);
+
+			return orders;
+		}));
+
+		// An order changing status between requests may be listed twice
+		return lists.reduce((orders, list) => {
+			return orders.concat(list.filter((order) => {
+				return !orders.some(({ orderId }) => {
+					return orderId === order.orderId;
+				});
+			}));
+		}, [] as Order[]);
+	}
+
+	/**
+	 * Cancels each order, reporting failures rather than throwing them.
+	 */
+	private cancelOrders(accountIdKey: string, orders: Order[], callOptions?: CallOptions): Promise<CancelOrderReport[]> {
+		return Promise.all(orders.map(async (order) => {
+			const report: CancelOrderReport = {
+				orderId: order.orderId,
+				symbols: getOrderSymbols(order),
+				success: false
+			};
+
+			try {
+				report.response = await this.cancelOrder({
+					accountIdKey: accountIdKey,
+					orderId: order.orderId
+				}, callOptions);
+				report.success = true;
+			}catch(err: any){
+				report.error = err;
+			}
+
+			return report;
+		}));
+	}
+
+	/**
+	 * Waits for cancelled orders to reach a final status, failing the reports of those that don't within `timeout`.
+	 */
+	private async confirmCancels(accountIdKey: string, orders: Order[], reports: CancelOrderReport[], timeout: number): Promise<void> {
+		const pending = reports.filter(({ success }) => {
+			return success;
+		});
+
+		if(pending.length === 0){
+			return;
+		}
+
+		const tracker = new OrderTracker(this, accountIdKey, {
+			interval: 1000,
+			priority: 0
+		});
+
+		await Promise.all(pending.map(async (report) => {
+			const order = orders.find(({ orderId }) => {
+				return orderId === report.orderId;
+			});
+
+			const detail = order && order.OrderDetail ? order.OrderDetail[0] : undefined;
+
+			try {
+				await tracker.waitForCancel(report.orderId, {
+					timeout: timeout,
+					since: detail && detail.placedTime ? detail.placedTime : undefined
+				});
+			}catch(err: any){
+				// Any other final status (ie. filled before the cancel) also leaves nothing open
+				if(err instanceof ETradeAbortError){
+					report.success = false;
+					report.error = err;
+				}
+			}
+		}));
+
+		tracker.stop();
+	}
+
+	/**
+	 * Places a market order closing the position, reporting failures rather than throwing them.
+	 */
+	private async closePosition(accountIdKey: string, position: Position, callOptions?: CallOptions): Promise<ClosePositionReport> {
+		const { Product: product } = position;
+		const short = position.positionType === 'SHORT' || position.quantity < 0;
+		const option = product.securityType === 'OPTN';
+
+		const report: ClosePositionReport = {
+			positionId: position.positionId,
+			symbol: option && position.osiKey ? position.osiKey : product.symbol,
+			quantity: Math.abs(position.quantity),
+			success: false
+		};
+
+		try {
+			if(product.securityType !== 'EQ' && !option){
+				throw new ETradeValidationError(`Positions of security type ${product.securityType} can't be flattened`);
+			}
+
+			report.orderAction = option ? (short ? 'BUY_CLOSE' : 'SELL_CLOSE') : (short ? 'BUY_TO_COVER' : 'SELL');
+
+			const request = new OrderBuilder(accountIdKey).leg({
+				Product: option ? {
+					symbol: product.symbol,
+					securityType: product.securityType,
+					callPut: product.callPut,
+					expiryYear: product.expiryYear,
+					expiryMonth: product.expiryMonth,
+					expiryDay: product.expiryDay,
+					strikePrice: product.strikePrice
+				} : {
+					symbol: product.symbol,
+					securityType: product.securityType
+				},
+				orderAction: report.orderAction,
+				quantity: report.quantity
+			}).market().build();
+
+			const { order } = await this.submitOrder(request, () => {
+				return true;
+			}, {
+				...callOptions,
+				closing: true
+			} as RequestContext);
+
+			report.order = order;
+			report.success = true;
+		}catch(err: any){
+			report.error = err;
+		}
+
+		return report;
+	}
+
+	/**
+	 * Pages through `listOrders` until an order matches.
+	 */
+	private async searchOrders(request: ListOrdersRequest, matches: (order: Order) => boolean, callOptions?: CallOptions): Promise<Order | undefined> {
+		let marker: string | undefined;
+
+		do {
+			const results = await this.listOrders({
+				...request,
+				marker: marker
+			}, callOptions);
+
+			const order = ((results && results.Order) || []).find(matches);
+
+			if(order){
+				return order;
+			}
+
+			marker = results && results.next ? results.marker : undefined;
+		}while(marker);
+
+		return undefined;
+	}
+
+	/* Client Related Methods */
+
+	/**
+	 * Creates a client for another user's access token that shares this client's consumer key, OAuth signer, rate limiter, order journal and paper trading accounts.
+	 *
+	 * Access tokens, token store and auth failure hook are not inherited.
+	 */
+	fork(options?: ETradeInitOptions): ETrade {
+		const client = new ETrade({
+			...this.settings,
+			accessToken: '',
+			accessSecret: '',
+			tokenStore: undefined,
+			onAuthFailure: undefined,
+			...(options || {})
+		});
+
+		client.buckets = this.buckets;
+		client.oauth = this.oauth;
+		client.placing = this.placing;
+		client.paper = this.paper;
+
+		return client;
+	}
+
+	/**
+	 * Returns the effective rate limit of a bucket, which forked clients share with their parent.
+	 */
+	getRateLimit(bucket: ETradeBucket): BucketOptions {
+		return {
+			limit: this.buckets[bucket].requestsPerPeriod,
+			period: this.buckets[bucket].periodLength
+		};
+	}
+
+	/* Token Store Related Methods */
+
+	async loadToken(): Promise<StoredToken | undefined> {
+		if(!this.settings.tokenStore){
+			return undefined;
+		}
+
+		const token = await this.settings.tokenStore.load();
+
+		if(token){
+			this.settings.accessToken = token.accessToken;
+			this.settings.accessSecret = token.accessSecret;
+
+			this.session.start(token.issuedAt);
+		}
+
+		return token;
 	}
 
 	/* OAuth Related Methods */
 
-	async getAccessToken(options: GetAccessTokenRequest): Promise<GetAccessTokenResponse> {
+	async authorizeInteractive({ callback = 'http://localhost:8080/callback', timeout = 5 * 60 * 1000, onAuthorizeUrl, successMessage = 'Authorization complete, you may close this window.' }: AuthorizeInteractiveRequest): Promise<GetAccessTokenResponse> {
+		const callbackUrl = new URL(callback);
+
+		if(callbackUrl.protocol !== 'http:'){
+			throw new Error('Interactive authorization requires an http:// callback URL');
+		}
+
+		let requestTokenResults: RequestTokenResponse | undefined;
+		let timer: NodeJS.Timeout | undefined;
+
+		const server = http.createServer();
+
+		const verifier = new Promise<string>((resolve, reject) => {
+			server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+				const url = new URL(req.url || '/', callbackUrl.origin);
+
+				res.setHeader('Connection', 'close');
+
+				if(url.pathname !== callbackUrl.pathname){
+					res.statusCode = 404;
+
+					return res.end();
+				}
+
+				const code = url.searchParams.get('oauth_verifier');
+				const token = url.searchParams.get('oauth_token');
+
+				if(!code || (token && requestTokenResults && token !== requestTokenResults.oauth_token)){
+					res.statusCode = 400;
+					res.end('Missing or mismatched oauth_verifier');
+
+					return reject(new Error('Authorization callback did not include a valid oauth_verifier'));
+				}
+
+				res.setHeader('Content-Type', 'text/plain');
+				res.end(successMessage);
+
+				resolve(code);
+			});
+
+			server.on('error', reject);
+
+			timer = setTimeout(() => {
+				reject(new Error('Timed out waiting for the authorization callback'));
+			}, timeout);
+		});
+
+		// Avoid an unhandled rejection if we bail out before awaiting the verifier
+		verifier.catch(() => {});
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				server.once('error', reject);
+
+				server.listen(+(callbackUrl.port || 80), callbackUrl.hostname, () => {
+					server.removeListener('error', reject);
+
+					resolve();
+				});
+			});
+
+			requestTokenResults = await this.requestToken({
+				callback: callbackUrl.toString()
+			});
+
+			await onAuthorizeUrl(requestTokenResults.url);
+
+			const code = await verifier;
+
+			return await this.getAccessToken({
+				key: requestTokenResults.oauth_token,
+				secret: requestTokenResults.oauth_token_secret,
+				code: code
+			});
+		}finally{
+			if(timer){
+				clearTimeout(timer);
+			}
+
+			server.close();
+		}
+	}
+
+	async getAccessToken(options: GetAccessTokenRequest, callOptions?: CallOptions): Promise<GetAccessTokenResponse> {
 		const requestOptions = this.getBasicRequest();
 
 		delete requestOptions.baseURL;
@@ -171,20 +1306,36 @@ export class ETrade {
 			oauth_verifier: options.code
 		};
 
-		this.signRequest(requestOptions, {
-			key: options.key,
-			secret: options.secret
-		});
-
-		const results = parseQueryString(await this.request<any>(requestOptions));
+		const results = parseQueryString(await this.request<any>('getAccessToken', requestOptions, {
+			...callOptions,
+			token: {
+				key: options.key,
+				secret: options.secret
+			}
+		}));
 
-		return {
+		const accessToken = {
 			oauth_token: '' + results.oauth_token,
 			oauth_token_secret: '' + results.oauth_token_secret
 		};
+
+		const issuedAt = Date.now();
+
+		this.settings.accessToken = accessToken.oauth_token;
+		this.settings.accessSecret = accessToken.oauth_token_secret;
+
+		this.session.start(issuedAt);
+
+		await this.saveToken({
+			accessToken: accessToken.oauth_token,
+			accessSecret: accessToken.oauth_token_secret,
+			issuedAt: issuedAt
+		});
+
+		return accessToken;
 	}
 
-	async renewAccessToken(options: RenewAccessTokenRequest){
+	async renewAccessToken(options?: RenewAccessTokenRequest, callOptions?: CallOptions){
 		const requestOptions = this.getBasicRequest();
 
 		delete requestOptions.baseURL;
@@ -194,15 +1345,35 @@ export class ETrade {
 			'renew_access_token'
 		].join('');
 
-		this.signRequest(requestOptions, {
-			key: options.key,
-			secret: options.secret
+		const token = options || {
+			key: this.settings.accessToken,
+			secret: this.settings.accessSecret
+		};
+
+		const results = await this.request<any>('renewAccessToken', requestOptions, {
+			...callOptions,
+			token: token
 		});
 
-		return await this.request<any>(requestOptions);
+		if(token.key === this.settings.accessToken){
+			// Renewal reactivates a token that went idle
+			if(this.session.active){
+				this.session.touch();
+			}else{
+				this.session.start();
+			}
+
+			await this.saveToken({
+				accessToken: token.key,
+				accessSecret: token.secret,
+				renewedAt: Date.now()
+			});
+		}
+
+		return results;
 	}
 
-	async requestToken(): Promise<RequestTokenResponse> {
+	async requestToken(options?: RequestTokenRequest, callOptions?: CallOptions): Promise<RequestTokenResponse> {
 		const requestOptions = this.getBasicRequest();
 
 		delete requestOptions.baseURL;
@@ -213,12 +1384,13 @@ export class ETrade {
 		].join('');
 
 		requestOptions.data = {
-			oauth_callback: 'oob'
+			oauth_callback: options && options.callback ? options.callback : 'oob'
 		};
 
-		this.signRequest(requestOptions, false);
-
-		const results = parseQueryString(await this.request<string>(requestOptions));
+		const results = parseQueryString(await this.request<string>('requestToken', requestOptions, {
+			...callOptions,
+			token: false
+		}));
 
 		return {
 			oauth_token: '' + results.oauth_token,
@@ -228,7 +1400,7 @@ export class ETrade {
 		};
 	}
 
-	async revokeAccessToken(options: RenewAccessTokenRequest){
+	async revokeAccessToken(options?: RenewAccessTokenRequest, callOptions?: CallOptions){
 		const requestOptions = this.getBasicRequest();
 
 		delete requestOptions.baseURL;
@@ -238,17 +1410,46 @@ export class ETrade {
 			'revoke_access_token'
 		].join('');
 
-		this.signRequest(requestOptions, {
-			key: options.key,
-			secret: options.secret
+		const token = options || {
+			key: this.settings.accessToken,
+			secret: this.settings.accessSecret
+		};
+
+		const results = await this.request<any>('revokeAccessToken', requestOptions, {
+			...callOptions,
+			token: token
 		});
 
-		return await this.request<any>(requestOptions);
+		if(token.key === this.settings.accessToken){
+			this.settings.accessToken = '';
+			this.settings.accessSecret = '';
+
+			this.session.expire('revoked');
+
+			if(this.settings.tokenStore){
+				await this.settings.tokenStore.clear();
+			}
+		}
+
+		return results;
 	}
 
 	/* E-Trade API */
 
-	async cancelOrder({ accountIdKey, orderId }: CancelOrderRequest): Promise<CancelOrderResponse> {
+	/**
+	 * Cancels every open order of the account matching the filters, reporting the outcome of each cancellation.
+	 */
+	async cancelAllOrders({ accountIdKey, symbol, securityType }: CancelAllOrdersRequest, callOptions?: CallOptions): Promise<CancelOrderReport[]> {
+		const orders = await this.listOpenOrders({
+			accountIdKey: accountIdKey,
+			symbol: symbol,
+			securityType: securityType
+		}, CANCELLABLE_STATUSES, callOptions);
+
+		return this.cancelOrders(accountIdKey, orders, callOptions);
+	}
+
+	async cancelOrder({ accountIdKey, orderId }: CancelOrderRequest, callOptions?: CallOptions): Promise<CancelOrderResponse> {
 		const requestOptions = this.getBasicRequest({
 			method: 'PUT',
 			url: `accounts/${accountIdKey}/orders/cancel.json`,
@@ -259,12 +1460,13 @@ export class ETrade {
 			}
 		});
 
-		this.signRequest(requestOptions, undefined, true);
-
-		return (await this.request<any>(requestOptions)).CancelOrderResponse;
+		return (await this.request<any>('cancelOrder', requestOptions, {
+			...callOptions,
+			omit: true
+		})).CancelOrderResponse;
 	}
 
-	async changePreviewedOrder({ accountIdKey, orderId, orderType, clientOrderId, order }: ChangePreviewedOrderRequest): Promise<PreviewOrderResponse> {
+	async changePreviewedOrder({ accountIdKey, orderId, orderType, clientOrderId, order }: ChangePreviewedOrderRequest, callOptions?: CallOptions): Promise<PreviewOrderResponse> {
 		const requestOptions = this.getBasicRequest({
 			method: 'PUT',
 			url: `accounts/${accountIdKey}/orders/${orderId}/change/preview.json`,
@@ -277,23 +1479,111 @@ export class ETrade {
 			}
 		});
 
-		this.signRequest(requestOptions, undefined, true);
-
-		return (await this.request<any>(requestOptions)).PreviewOrderResponse;
+		return (await this.request<any>('changePreviewedOrder', requestOptions, {
+			...callOptions,
+			omit: true
+		})).PreviewOrderResponse;
 	}
 
-	async deleteAlert(alertId: number | number[]): Promise<DeleteAlertResponse> {
+	async deleteAlert(alertId: number | number[], callOptions?: CallOptions): Promise<DeleteAlertResponse> {
 		const requestOptions = this.getBasicRequest({
 			method: 'DELETE',
 			url: `user/alerts/${(typeof alertId === 'number' ? alertId : alertId.join(','))}.json`
 		});
 
-		this.signRequest(requestOptions);
+		return (await this.request<any>('deleteAlert', requestOptions, callOptions)).AlertsResponse;
+	}
 
-		return (await this.request<any>(requestOptions)).AlertsResponse;
+	/**
+	 * Closes every equity and option position of the account with market orders, limited to `symbols` (underlying symbols) if set.
+	 *
+	 * Open orders for those symbols are cancelled first so they don't hold the shares or contracts being closed. Failures are reported per order and position, not thrown.
+	 */
+	async flattenPositions({ accountIdKey, symbols, cancelTimeout = 30000 }: FlattenPositionsRequest, callOptions?: CallOptions): Promise<FlattenPositionsReport> {
+		const filter = symbols ? symbols.map((symbol) => {
+			return symbol.toUpperCase();
+		}) : undefined;
+
+		const matches = (symbol: string | undefined): boolean => {
+			return !filter || (!!symbol && filter.includes(symbol.toUpperCase()));
+		};
+
+		const orders = (await this.listOpenOrders({
+			accountIdKey: accountIdKey
+		}, [ ...CANCELLABLE_STATUSES, 'CANCEL_REQUESTED' ], callOptions)).filter((order) => {
+			return getOrderSymbols(order).some(matches);
+		});
+
+		const requested = orders.filter((order) => {
+			return getOrderStatus(order) === 'CANCEL_REQUESTED';
+		});
+
+		// Orders whose cancel is already requested only need confirming
+		const cancelled = (await this.cancelOrders(accountIdKey, orders.filter((order) => {
+			return !requested.includes(order);
+		}), callOptions)).concat(requested.map((order) => {
+			return {
+				orderId: order.orderId,
+				symbols: getOrderSymbols(order),
+				success: true
+			};
+		}));
+
+		await this.confirmCancels(accountIdKey, orders, cancelled, cancelTimeout);
+
+		// Closing a position while an order on it may still fill could double it up
+		const blocked = cancelled.filter(({ success }) => {
+			return !success;
+		}).reduce((blocked, { symbols }) => {
+			return blocked.concat(symbols.map((symbol) => {
+				return symbol.toUpperCase();
+			}));
+		}, [] as string[]);
+
+		const positions: Position[] = [];
+
+		let pageNumber: number | undefined;
+
+		do {
+			const portfolios = await this.viewPortfolio({
+				accountIdKey: accountIdKey,
+				pageNumber: pageNumber
+			}, callOptions);
+
+			pageNumber = undefined;
+
+			(Array.isArray(portfolios) ? portfolios : []).forEach((portfolio) => {
+				positions.push(...(portfolio.Position || []));
+
+				if(portfolio.nextPageNo){
+					pageNumber = +portfolio.nextPageNo;
+				}
+			});
+		}while(pageNumber);
+
+		const closed = await Promise.all(positions.filter((position) => {
+			return !!position.Product && +position.quantity !== 0 && matches(position.Product.symbol);
+		}).map(async (position) => {
+			if(blocked.includes(position.Product.symbol.toUpperCase())){
+				return {
+					positionId: position.positionId,
+					symbol: position.Product.securityType === 'OPTN' && position.osiKey ? position.osiKey : position.Product.symbol,
+					quantity: Math.abs(position.quantity),
+					success: false,
+					error: new ETradeOrderRejectedError(`Open orders for ${position.Product.symbol} weren't confirmed cancelled, the position was left open`)
+				};
+			}
+
+			return this.closePosition(accountIdKey, position, callOptions);
+		}));
+
+		return {
+			cancelled: cancelled,
+			closed: closed
+		};
 	}
 
- 	async getAccountBalances({ accountIdKey, accountType, instType = 'BROKERAGE', realTimeNAV = true }: GetAccountBalancesRequest): Promise<GetAccountBalancesResponse> {
+ 	async getAccountBalances({ accountIdKey, accountType, instType = 'BROKERAGE', realTimeNAV = true }: GetAccountBalancesRequest, callOptions?: CallOptions): Promise<GetAccountBalancesResponse> {
 		const data: Partial<GetAccountBalancesRequest> = {
 			instType: instType,
 			realTimeNAV: realTimeNAV
@@ -308,12 +1598,10 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).BalanceResponse;
+		return (await this.request<any>('getAccountBalances', requestOptions, callOptions)).BalanceResponse;
 	}
 
-	async getOptionChains({ symbol, expiryYear, expiryMonth, expiryDay, strikePriceNear, noOfStrikes, includeWeekly = false, skipAdjusted = true, optionCategory = 'STANDARD', chainType = 'CALLPUT', priceType = 'ATNM' }: GetOptionChainsRequest): Promise<GetOptionChainsResponse> {
+	async getOptionChains({ symbol, expiryYear, expiryMonth, expiryDay, strikePriceNear, noOfStrikes, includeWeekly = false, skipAdjusted = true, optionCategory = 'STANDARD', chainType = 'CALLPUT', priceType = 'ATNM' }: GetOptionChainsRequest, callOptions?: CallOptions): Promise<GetOptionChainsResponse> {
 		const data: Partial<GetOptionChainsRequest> = {
 			symbol: symbol,
 			includeWeekly: includeWeekly,
@@ -348,12 +1636,10 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).OptionChainResponse;
+		return (await this.request<any>('getOptionChains', requestOptions, callOptions)).OptionChainResponse;
 	}
 
-	async getOptionExpireDates({ symbol, expiryType }: GetOptionExpireDatesRequest): Promise<ExpirationDate[]> {
+	async getOptionExpireDates({ symbol, expiryType }: GetOptionExpireDatesRequest, callOptions?: CallOptions): Promise<ExpirationDate[]> {
 		const data: Partial<GetOptionExpireDatesRequest> = {
 			symbol: symbol
 		};
@@ -367,12 +1653,109 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
+		return (await this.request<any>('getOptionExpireDates', requestOptions, callOptions)).OptionExpireDateResponse.ExpirationDate;
+	}
 
-		return (await this.request<any>(requestOptions)).OptionExpireDateResponse.ExpirationDate;
+	/**
+	 * Fetches the option chains of every expiration of `symbol`, or those between `fromDate` and `toDate`, and merges them into one surface.
+	 *
+	 * Makes one `getOptionExpireDates` request and one `getOptionChains` request per expiration, all subject to the `market` rate limit.
+	 */
+	async getOptionSurface(symbol: string, { fromDate, toDate, expiryType, strikePriceNear, noOfStrikes, includeWeekly = true, skipAdjusted = true, optionCategory = 'STANDARD', priceType = 'ALL' }: GetOptionSurfaceFilters = {}, callOptions?: CallOptions): Promise<OptionSurface> {
+		const from = fromDate !== undefined ? new Date(fromDate).getTime() : -Infinity;
+		const to = toDate !== undefined ? new Date(toDate).getTime() : Infinity;
+
+		const expirations = (await this.getOptionExpireDates({
+			symbol: symbol,
+			expiryType: expiryType
+		}, callOptions) || []).map((expiration) => {
+			return {
+				...expiration,
+				expiry: fromEasternTime(expiration.year, expiration.month, expiration.day)
+			};
+		}).filter(({ expiry }) => {
+			return expiry >= from && expiry <= to;
+		}).sort((a, b) => {
+			return a.expiry - b.expiry;
+		});
+
+		const chains = await Promise.all(expirations.map((expiration) => {
+			return this.getOptionChains({
+				symbol: symbol,
+				expiryYear: expiration.year,
+				expiryMonth: expiration.month,
+				expiryDay: expiration.day,
+				strikePriceNear: strikePriceNear,
+				noOfStrikes: noOfStrikes,
+				includeWeekly: includeWeekly,
+				skipAdjusted: skipAdjusted,
+				optionCategory: optionCategory,
+				chainType: 'CALLPUT',
+				priceType: priceType
+			}, callOptions);
+		}));
+
+		const surface: OptionSurface = {
+			symbol: symbol.toUpperCase(),
+			dates: [],
+			expirations: {}
+		};
+
+		chains.forEach((chain, i) => {
+			const expiration = expirations[i];
+			const date = [
+				expiration.year,
+				('' + expiration.month).padStart(2, '0'),
+				('' + expiration.day).padStart(2, '0')
+			].join('-');
+
+			if(chain && chain.nearPrice !== undefined){
+				surface.nearPrice = chain.nearPrice;
+			}
+
+			const entry: OptionSurfaceExpiration = {
+				date: date,
+				expiry: new Date(expiration.expiry),
+				expiryType: expiration.expiryType,
+				strikePrices: [],
+				strikes: {}
+			};
+
+			((chain && chain.OptionPair) || []).forEach((pair) => {
+				([ 'Call', 'Put' ] as ('Call' | 'Put')[]).forEach((side) => {
+					const details = pair[side];
+
+					if(!details){
+						return;
+					}
+
+					const contract = normalizeOptionDetails(details, symbol, expiration.expiry, side === 'Call' ? 'CALL' : 'PUT');
+					const key = '' + contract.strike;
+
+					if(!entry.strikes[key]){
+						entry.strikes[key] = {
+							strike: contract.strike
+						};
+
+						entry.strikePrices.push(contract.strike);
+					}
+
+					entry.strikes[key][side === 'Call' ? 'call' : 'put'] = contract;
+				});
+			});
+
+			entry.strikePrices.sort((a, b) => {
+				return a - b;
+			});
+
+			surface.dates.push(date);
+			surface.expirations[date] = entry;
+		});
+
+		return surface;
 	}
 
-	async getQuotes({ symbols, detailFlag, requireEarningsDate = false, overrideSymbolCount = false, skipMiniOptionsCheck = false }: GetQuotesRequest): Promise<QuoteData> {
+	async getQuotes({ symbols, detailFlag, requireEarningsDate = false, overrideSymbolCount = false, skipMiniOptionsCheck = false }: GetQuotesRequest, callOptions?: CallOptions): Promise<GetQuotesResponse> {
 		const data: Partial<GetQuotesRequest> = {
 			requireEarningsDate: requireEarningsDate,
 			overrideSymbolCount: overrideSymbolCount,
@@ -383,27 +1766,98 @@ export class ETrade {
 			data.detailFlag = detailFlag;
 		}
 
-		const requestOptions = this.getBasicRequest({
-			url: `market/quote/${typeof(symbols) === 'string' ? symbols : symbols.join(',')}.json`,
-			data: data
+		const symbolList = (typeof(symbols) === 'string' ? symbols.split(',') : symbols).map((symbol) => {
+			return symbol.trim();
+		}).filter((symbol) => {
+			return !!symbol;
+		});
+
+		// E-Trade caps a single quote request at 25 symbols, or 50 with overrideSymbolCount
+		const batchSize = overrideSymbolCount ? 50 : 25;
+		const batches: string[][] = [];
+
+		for(let i = 0; i < symbolList.length; i += batchSize){
+			batches.push(symbolList.slice(i, i + batchSize));
+		}
+
+		const results = await Promise.all(batches.map(async (batch) => {
+			const requestOptions = this.getBasicRequest({
+				url: `market/quote/${batch.join(',')}.json`,
+				data: data
+			});
+
+			try {
+				return {
+					batch: batch,
+					response: (await this.request<any>('getQuotes', requestOptions, callOptions)).QuoteResponse || {}
+				};
+			}catch(err: any){
+				return {
+					batch: batch,
+					error: err
+				};
+			}
+		}));
+
+		const failed = results.filter((result) => {
+			return !!result.error;
 		});
 
-		this.signRequest(requestOptions);
+		// Only a partial failure is reported per symbol, otherwise the call fails
+		if(failed.length > 0 && failed.length === results.length){
+			throw failed[0].error;
+		}
+
+		return results.reduce((quotes: GetQuotesResponse, result) => {
+			if(result.error){
+				result.batch.forEach((symbol) => {
+					quotes.errors.push({
+						symbol: symbol,
+						message: result.error.message,
+						code: result.error.code,
+						error: result.error
+					});
+				});
+
+				return quotes;
+			}
+
+			(result.response.QuoteData || []).forEach((quote: QuoteData) => {
+				if(quote.errorMessage){
+					quotes.errors.push({
+						symbol: quote.Product ? quote.Product.symbol : undefined,
+						message: quote.errorMessage
+					});
+				}else{
+					quotes.QuoteData.push(quote);
+				}
+			});
+
+			if(result.response.Messages && result.response.Messages.Message){
+				result.response.Messages.Message.forEach((message: Message) => {
+					quotes.errors.push({
+						message: message.description,
+						code: message.code
+					});
+				});
+			}
 
-		return (await this.request<any>(requestOptions)).QuoteResponse.QuoteData[0];
+			return quotes;
+		}, {
+			QuoteData: [],
+			errors: []
+		});
 	}
 
-	async listAccounts(): Promise<Account[]> {
+	async listAccounts(callOptions?: CallOptions): Promise<Account[]> {
 		const requestOptions = this.getBasicRequest({
 			url: 'accounts/list.json'
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).AccountListResponse.Accounts.Account;
+		return (await this.request<any>('listAccounts', requestOptions, callOptions)).AccountListResponse.Accounts.Account;
 	}
 
-	async listAlertDetails({ alertId, htmlTags = false }: ListAlertDetailsRequest): Promise<AlertDetails> {
+	async listAlertDetails({ alertId, htmlTags = false }: ListAlertDetailsRequest, callOptions?: CallOptions): Promise<AlertDetails> {
 		const requestOptions = this.getBasicRequest({
 			url: `user/alerts/${alertId}.json`,
 			data: {
@@ -411,12 +1865,10 @@ export class ETrade {
 			}
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).AlertDetailsResponse;
+		return (await this.request<any>('listAlertDetails', requestOptions, callOptions)).AlertDetailsResponse;
 	}
 
-	async listAlerts(options?: ListAlertsRequest): Promise<ListAlertsResponse> {
+	async listAlerts(options?: ListAlertsRequest, callOptions?: CallOptions): Promise<ListAlertsResponse> {
 		const data: Partial<ListAlertsRequest> = {};
 
 		if(options){
@@ -446,12 +1898,10 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).AlertsResponse;
+		return (await this.request<any>('listAlerts', requestOptions, callOptions)).AlertsResponse;
 	}
 
-	async listOrders({ accountIdKey, marker, count, status, fromDate, toDate, symbol, securityType, transactionType, marketSession }: ListOrdersRequest): Promise<ListOrdersResponse> {
+	async listOrders({ accountIdKey, marker, count, status, fromDate, toDate, symbol, securityType, transactionType, marketSession }: ListOrdersRequest, callOptions?: CallOptions): Promise<ListOrdersResponse> {
 		const data: Partial<ListOrdersRequest> = {};
 
 		if(marker){
@@ -495,12 +1945,10 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).OrdersResponse;
+		return (await this.request<any>('listOrders', requestOptions, callOptions)).OrdersResponse;
 	}
 
-	async listTransactionDetails({ accountIdKey, transactionId, storeId }: ListTransactionDetailsRequest): Promise<Transaction> {
+	async listTransactionDetails({ accountIdKey, transactionId, storeId }: ListTransactionDetailsRequest, callOptions?: CallOptions): Promise<Transaction> {
 		const data: Partial<ListTransactionDetailsRequest> = {};
 
 		if(storeId){
@@ -512,12 +1960,10 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).TransactionDetailsResponse;
+		return (await this.request<any>('listTransactionDetails', requestOptions, callOptions)).TransactionDetailsResponse;
 	}
 
-	async listTransactions({ accountIdKey, startDate, endDate, sortOrder, marker, count }: ListTransactionsRequest): Promise<ListTransactionsResponse> {
+	async listTransactions({ accountIdKey, startDate, endDate, sortOrder, marker, count }: ListTransactionsRequest, callOptions?: CallOptions): Promise<ListTransactionsResponse> {
 		const data: Partial<ListTransactionsRequest> = {};
 
 		if(startDate){
@@ -545,22 +1991,66 @@ export class ETrade {
 			data: data
 		});
 
-		this.signRequest(requestOptions);
+		return (await this.request<any>('listTransactions', requestOptions, callOptions)).TransactionListResponse;
+	}
+
+	async lookupProduct(search: string, callOptions?: CallOptions): Promise<LookupProductResponse[]> {
+		const requestOptions = this.getBasicRequest({
+			url: `market/lookup/${search}.json`
+		});
+
+		return (await this.request<any>('lookupProduct', requestOptions, callOptions)).LookupResponse.Data;
+	}
+
+	/**
+	 * Changes an open order in one call: loads it with `listOrders`, applies `patch` and places the change through `changePreviewedOrder` and `placeChangedOrder`.
+	 *
+	 * Rejects with an `ETradeOrderRejectedError`, `code` set to the order status, if the order isn't open anymore, including when it executed or was cancelled during the change. Order groups can't be modified.
+	 */
+	async modifyOrder(accountIdKey: string, orderId: number, patch: OrderPatch, callOptions?: CallOptions): Promise<ModifyOrderResult> {
+		const previous = await this.loadOrder(accountIdKey, orderId, callOptions);
+		const unmodifiable = getUnmodifiableError(previous);
+
+		if(unmodifiable){
+			throw unmodifiable;
+		}
+
+		if(!previous.OrderDetail || previous.OrderDetail.length !== 1){
+			throw new ETradeValidationError(`Order ${orderId} is a ${previous.orderType} group, its orders can't be modified together`);
+		}
+
+		const builder = OrderBuilder.from(applyOrderPatch(previous.OrderDetail[0], patch), accountIdKey).orderType(previous.orderType as orderType);
+
+		if(patch.goodTillDate !== undefined){
+			builder.goodTillDate(patch.goodTillDate);
+		}
 
-		return (await this.request<any>(requestOptions)).TransactionListResponse;
-	}
+		const request = builder.buildChange(orderId);
 
-	async lookupProduct(search: string): Promise<LookupProductResponse[]> {
-		const requestOptions = this.getBasicRequest({
-			url: `market/lookup/${search}.json`
-		});
+		try {
+			const { preview, order } = await this.submitChangedOrder(request, () => {
+				return true;
+			}, callOptions);
 
-		this.signRequest(requestOptions);
+			return {
+				previous: previous,
+				preview: preview,
+				order: order as PlaceOrderResponse
+			};
+		}catch(err){
+			// The order may have executed or been cancelled since it was loaded
+			const current = await this.loadOrder(accountIdKey, orderId, callOptions).catch(() => {
+				return undefined;
+			});
 
-		return (await this.request<any>(requestOptions)).LookupResponse.Data;
+			throw (current && getUnmodifiableError(current)) || err;
+		}
 	}
 
-	async placeChangedOrder({ accountIdKey, orderId, orderType, order, clientOrderId, previewIds }: PlaceChangedOrderRequest): Promise<PlaceOrderResponse> {
+	async placeChangedOrder(request: PlaceChangedOrderRequest, callOptions?: CallOptions): Promise<PlaceOrderResponse> {
+		const { accountIdKey, orderId, orderType, order, clientOrderId, previewIds } = request;
+		const notional = await this.risk.check(request, callOptions);
+
 		const requestOptions = this.getBasicRequest({
 			method: 'PUT',
 			url: `accounts/${accountIdKey}/orders/${orderId}/change/place.json`,
@@ -574,31 +2064,44 @@ export class ETrade {
 			}
 		});
 
-		this.signRequest(requestOptions, undefined, true);
+		const response = (await this.request<any>('placeChangedOrder', requestOptions, {
+			...callOptions,
+			omit: true
+		})).PlaceOrderResponse;
+
+		// Changes keep the order id, so only the difference from the order's previous notional is counted
+		this.risk.record(accountIdKey, notional, orderId);
 
-		return (await this.request<any>(requestOptions)).PlaceOrderResponse;
+		return response;
 	}
 
-	async placeOrder({ accountIdKey, orderType, order, clientOrderId, previewIds }: PlaceOrderRequest): Promise<PlaceOrderResponse> {
-		const requestOptions = this.getBasicRequest({
-			method: 'POST',
-			url: `accounts/${accountIdKey}/orders/place.json`,
-			data: {
-				PlaceOrderRequest: {
-					orderType: orderType,
-					clientOrderId: clientOrderId,
-					Order: order,
-					PreviewIds: previewIds
-				}
-			}
-		});
+	/**
+	 * Concurrent calls for the same `clientOrderId` share one submission. See `orderJournal` for deduplication across calls and restarts.
+	 */
+	async placeOrder(request: PlaceOrderRequest, callOptions?: CallOptions): Promise<PlaceOrderResponse> {
+		const key = `${request.accountIdKey}:${request.clientOrderId}`;
+		const pending = this.placing.get(key);
+
+		if(pending){
+			return pending;
+		}
 
-		this.signRequest(requestOptions, undefined, true);
+		const placing = this.journalPlaceOrder(request, callOptions);
 
-		return (await this.request<any>(requestOptions)).PlaceOrderResponse;
+		this.placing.set(key, placing);
+
+		try {
+			return await placing;
+		}finally{
+			this.placing.delete(key);
+		}
 	}
 
-	async previewOrder({ accountIdKey, orderType, order, clientOrderId }: PreviewOrderRequest): Promise<PreviewOrderResponse> {
+	async previewOrder(request: PreviewOrderRequest, callOptions?: CallOptions): Promise<PreviewOrderResponse> {
+		const { accountIdKey, orderType, order, clientOrderId } = request;
+
+		await this.risk.check(request, callOptions, isClosingContext(callOptions));
+
 		const requestOptions = this.getBasicRequest({
 			method: 'POST',
 			url: `accounts/${accountIdKey}/orders/preview.json`,
@@ -611,22 +2114,69 @@ export class ETrade {
 			}
 		});
 
-		this.signRequest(requestOptions, undefined, true);
+		return (await this.request<any>('previewOrder', requestOptions, {
+			...callOptions,
+			omit: true
+		})).PreviewOrderResponse;
+	}
+
+	/**
+	 * Same as `submitOrder`, but previews and places a change to an open order through `changePreviewedOrder` and `placeChangedOrder`.
+	 */
+	async submitChangedOrder(request: ChangePreviewedOrderRequest, approve: OrderApproval, callOptions?: CallOptions): Promise<SubmitOrderResult> {
+		const preview = await this.changePreviewedOrder(request, callOptions);
+
+		if(!await this.approvePreview(request, preview, approve)){
+			return {
+				approved: false,
+				preview: preview
+			};
+		}
+
+		return {
+			approved: true,
+			preview: preview,
+			order: await this.placeChangedOrder({
+				...request,
+				previewIds: preview.PreviewIds
+			}, callOptions)
+		};
+	}
+
+	/**
+	 * Previews an order, passes the preview to `approve` and, if approved, places the exact same order with the preview's ids.
+	 *
+	 * Previews containing `ERROR` messages are never placed, an `ETradeOrderRejectedError` is thrown instead.
+	 */
+	async submitOrder(request: PreviewOrderRequest, approve: OrderApproval, callOptions?: CallOptions): Promise<SubmitOrderResult> {
+		const preview = await this.previewOrder(request, callOptions);
+
+		if(!await this.approvePreview(request, preview, approve)){
+			return {
+				approved: false,
+				preview: preview
+			};
+		}
 
-		return (await this.request<any>(requestOptions)).PreviewOrderResponse;
+		return {
+			approved: true,
+			preview: preview,
+			order: await this.placeOrder({
+				...request,
+				previewIds: preview.PreviewIds
+			}, callOptions)
+		};
 	}
 
-	async viewLotsDetails({ accountIdKey, positionId }: ViewLotsDetailsRequest): Promise<ViewLotsDetailsResponse> {
+	async viewLotsDetails({ accountIdKey, positionId }: ViewLotsDetailsRequest, callOptions?: CallOptions): Promise<ViewLotsDetailsResponse> {
 		const requestOptions = this.getBasicRequest({
 			url: `accounts/${accountIdKey}/portfolio/${positionId}.json`
 		});
 
-		this.signRequest(requestOptions);
-
-		return (await this.request<any>(requestOptions)).PositionLotsResponse;
+		return (await this.request<any>('viewLotsDetails', requestOptions, callOptions)).PositionLotsResponse;
 	}
 
-	async viewPortfolio({ accountIdKey, count, sortBy, sortOrder = 'DESC', marketSession = 'REGULAR', totalsRequired = false, lotsRequired = false, view = 'QUICK' }: ViewPortfolioRequest): Promise<Portfolio[]> {
+	async viewPortfolio({ accountIdKey, count, pageNumber, sortBy, sortOrder = 'DESC', marketSession = 'REGULAR', totalsRequired = false, lotsRequired = false, view = 'QUICK' }: ViewPortfolioRequest, callOptions?: CallOptions): Promise<Portfolio[]> {
 		const data: Partial<ViewPortfolioRequest> = {
 			sortOrder: sortOrder,
 			marketSession: marketSession,
@@ -643,20 +2193,39 @@ export class ETrade {
 			data.sortBy = sortBy;
 		}
 
+		if(pageNumber){
+			data.pageNumber = pageNumber;
+		}
+
 		const requestOptions = this.getBasicRequest({
 			url: `accounts/${accountIdKey}/portfolio.json`,
 			data: data
 		});
 
-		this.signRequest(requestOptions);
-
-		const response = await this.request<any>(requestOptions);
+		const response = await this.request<any>('viewPortfolio', requestOptions, callOptions);
 
 		return response?.PortfolioResponse?.AccountPortfolio || {};
 	}
 
 }
 
+/* Re-Exports */
+export * from './errors';
+export * from './token-store';
+export * from './session-manager';
+export * from './market-time';
+export * from './e-trade-pool';
+export * from './quote-stream';
+export * from './osi';
+export * from './pricing';
+export * from './strategies';
+export * from './order-builder';
+export * from './order-journal';
+export * from './order-tracker';
+export * from './order-groups';
+export * from './risk-guard';
+export * from './paper-broker';
+
 /* Interfaces / Types */
 export type accountMode = 'CASH' | 'MARGIN';
 export type institutionType = 'BROKERAGE';
@@ -695,7 +2264,10 @@ export type messageType = 'WARNING' | 'INFO' | 'INFO_HOLD' | 'ERROR';
 export type cashMargin = 'CASH' | 'MARGIN';
 
 export interface ETradeOptions {
-	mode: 'dev' | 'prod';
+	/**
+	 * `paper` trades against simulated accounts (see `paper`) using production market data.
+	 */
+	mode: 'dev' | 'prod' | 'paper';
 
 	key: string;
 	secret: string;
@@ -721,12 +2293,195 @@ export interface ETradeOptions {
 			password: string;
 		}
 	}
+
+	/**
+	 * Independent rate limits per API module, each defaulting to `connectionLimit` requests per `connectionLimitPeriod`. See `ETrade.operations` for which methods use which bucket.
+	 */
+	buckets: Record<ETradeBucket, Partial<BucketOptions>>;
+
+	/**
+	 * Queue priority per method within its bucket, higher goes first. Defaults to 0.
+	 */
+	priorities: Partial<Record<ETradeOperation, number>>;
+
+	/**
+	 * Default per request timeout in milliseconds, 0 for none. See `CallOptions`.
+	 */
+	timeout: number;
+
+	/**
+	 * Retry policy for transient failures. Each attempt is re-signed and re-throttled. Only `methods` are retried, so orders are never resubmitted; set `attempts` to 1 to disable.
+	 */
+	retry: RetryOptions;
+
+	/**
+	 * Persists access tokens across process restarts. Loaded at construction (unless `accessToken` is provided) and updated by `getAccessToken`, `renewAccessToken` and `revokeAccessToken`.
+	 */
+	tokenStore?: TokenStore;
+
+	/**
+	 * Records `placeOrder` submissions by `clientOrderId`. Resubmitting an order that was already placed returns the original response, and resubmitting one whose outcome is unknown (ie. it timed out) first looks for it with `listOrders`.
+	 */
+	orderJournal?: OrderJournal;
+
+	/**
+	 * Access token idle/expiry tracking. Emits `sessionExpiring` and `sessionExpired`, and with `keepAlive` renews the token before it goes idle.
+	 */
+	session: Partial<SessionOptions>;
+
+	/**
+	 * Pre-trade limits checked before `previewOrder`, `placeOrder` and `placeChangedOrder` send an order, throwing an `ETradeRiskError` for orders that break them. Nothing is checked by default.
+	 */
+	risk: Partial<RiskOptions>;
+
+	/**
+	 * Simulated accounts used in `paper` mode to serve order, portfolio and balance requests.
+	 */
+	paper: Partial<PaperOptions>;
+
+	/**
+	 * Called once per burst of 401 responses to requests using the access token. Requests using the access token are held until it settles, then the failed requests are replayed once.
+	 *
+	 * Return fresh credentials to use them, nothing if the token was otherwise fixed (ie. `renewAccessToken`), or `false` to fail the requests.
+	 */
+	onAuthFailure?: (err: ETradeError, eTrade: ETrade) => Promise<AuthFailureResult> | AuthFailureResult;
 }
 
-export interface ETradeError extends Error {
-	message: string;
-	code?: number;
-	raw?: any;
+/**
+ * `ETradeOptions` as accepted by the constructor, option groups are merged with the defaults.
+ */
+export type ETradeInitOptions = Partial<Omit<ETradeOptions, 'urls' | 'buckets' | 'retry'>> & {
+	urls?: Partial<ETradeOptions['urls']>;
+	buckets?: Partial<ETradeOptions['buckets']>;
+	retry?: Partial<RetryOptions>;
+};
+
+export type ETradeBucket = 'accounts' | 'market' | 'orders' | 'alerts' | 'oauth';
+
+export type ETradeOperation = 'getAccessToken' | 'renewAccessToken' | 'requestToken' | 'revokeAccessToken' | 'cancelOrder' | 'changePreviewedOrder' | 'deleteAlert' | 'getAccountBalances' | 'getOptionChains' | 'getOptionExpireDates' | 'getQuotes' | 'listAccounts' | 'listAlertDetails' | 'listAlerts' | 'listOrders' | 'listTransactionDetails' | 'listTransactions' | 'lookupProduct' | 'placeChangedOrder' | 'placeOrder' | 'previewOrder' | 'viewLotsDetails' | 'viewPortfolio';
+
+export interface BucketOptions {
+	/**
+	 * Requests allowed per `period`.
+	 */
+	limit: number;
+	/**
+	 * Period length in milliseconds.
+	 */
+	period: number;
+}
+
+export interface RetryOptions {
+	/**
+	 * Maximum number of attempts, including the first.
+	 */
+	attempts: number;
+	/**
+	 * Delay before the first retry in milliseconds, multiplied by `factor` for every further retry up to `maxDelay`.
+	 */
+	minDelay: number;
+	maxDelay: number;
+	factor: number;
+	/**
+	 * Randomize each delay between half and all of its value.
+	 */
+	jitter: boolean;
+	/**
+	 * HTTP methods that are safe to retry.
+	 */
+	methods: string[];
+	statusCodes: number[];
+	/**
+	 * Network error codes to retry, ie. `ECONNRESET`.
+	 */
+	errorCodes: string[];
+}
+
+export interface CallOptions {
+	/**
+	 * Milliseconds before giving up on the request, including time spent waiting for the rate limiter and retrying. Rejects with an `ETradeTimeoutError`.
+	 */
+	timeout?: number;
+	/**
+	 * Cancels the request, whether it's waiting for the rate limiter or in flight. Rejects with an `ETradeAbortError`.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Overrides the method's queue priority within its rate limit bucket.
+	 */
+	priority?: number;
+}
+
+interface RequestContext extends CallOptions {
+	token?: boolean | { key: string; secret: string; };
+	omit?: boolean;
+	/**
+	 * Set on the orders `flattenPositions` places to close positions, which skip the notional and buying power limits.
+	 */
+	closing?: boolean;
+}
+
+export interface RequestEvent {
+	/**
+	 * Sequential id of the request, matching `ETradeError#requestId` and the debug output.
+	 */
+	id: number;
+	operation: ETradeOperation;
+	bucket: ETradeBucket;
+	method: string;
+	endpoint: string;
+	/**
+	 * Query parameters without any OAuth parameters.
+	 */
+	params: Record<string, any>;
+	attempt: number;
+}
+
+export interface ResponseEvent extends RequestEvent {
+	status: number;
+	/**
+	 * Milliseconds from sending the request to receiving the response, excluding time spent waiting for the rate limiter.
+	 */
+	duration: number;
+}
+
+export interface RequestErrorEvent extends RequestEvent {
+	status?: number;
+	duration: number;
+	error: ETradeError;
+}
+
+export interface RetryEvent extends RequestEvent {
+	/**
+	 * Milliseconds until the next attempt.
+	 */
+	delay: number;
+	error: ETradeError;
+}
+
+export interface ThrottledEvent {
+	operation: ETradeOperation;
+	bucket: ETradeBucket;
+	priority: number;
+	/**
+	 * Number of requests waiting in the bucket, including this one.
+	 */
+	queued: number;
+}
+
+interface AbortScope {
+	signal: AbortSignal;
+	error: ETradeAbortError | undefined;
+	dispose: () => void;
+}
+
+export type AuthFailureResult = StoredToken | boolean | void;
+
+export interface RequestTokenRequest {
+	/**
+	 * OAuth callback URL E-Trade redirects to with the verifier code. Defaults to 'oob' (out of band).
+	 */
+	callback?: string;
 }
 
 export interface RequestTokenResponse {
@@ -736,6 +2491,25 @@ export interface RequestTokenResponse {
 	url: string;
 }
 
+export interface AuthorizeInteractiveRequest {
+	/**
+	 * Local callback URL to listen on, must match the callback registered with E-Trade. Defaults to 'http://localhost:8080/callback'.
+	 */
+	callback?: string;
+	/**
+	 * Milliseconds to wait for the user to authorize the application. Defaults to five minutes.
+	 */
+	timeout?: number;
+	/**
+	 * Called with the E-Trade authorization URL, typically to open it in a browser.
+	 */
+	onAuthorizeUrl: (url: string) => Promise<void> | void;
+	/**
+	 * Plain text response shown in the browser once the callback is received.
+	 */
+	successMessage?: string;
+}
+
 export interface GetAccessTokenRequest {
 	key: string;
 	secret: string;
@@ -833,6 +2607,7 @@ export interface ListTransactionDetailsRequest {
 export interface ViewPortfolioRequest {
 	accountIdKey: string;
 	count?: number;
+	pageNumber?: number;
 	sortBy?: sortBy;
 	sortOrder?: sortOrder;
 	marketSession?: marketSession;
@@ -874,6 +2649,27 @@ export interface GetQuotesRequest {
 	skipMiniOptionsCheck?: boolean;
 }
 
+export interface GetQuotesResponse {
+	/**
+	 * Quotes for every symbol that succeeded, in the order requested.
+	 */
+	QuoteData: QuoteData[];
+	/**
+	 * Symbols E-Trade returned an `errorMessage` for, `QuoteResponse.Messages` and batches that failed outright.
+	 */
+	errors: QuoteError[];
+}
+
+export interface QuoteError {
+	symbol?: string;
+	message: string;
+	code?: number | string;
+	/**
+	 * The request error, if the symbol's batch failed outright.
+	 */
+	error?: ETradeError;
+}
+
 export interface LookupProductResponse {
 	symbol: string;
 	description: string;
@@ -897,6 +2693,83 @@ export interface GetOptionChainsRequest {
 export interface GetOptionChainsResponse {
 	OptionPair: OptionChainPair[];
 	SelectedED: SelectedED;
+	nearPrice?: number;
+	timeStamp?: number;
+	quoteType?: string;
+}
+
+export interface GetOptionSurfaceFilters {
+	/**
+	 * Earliest expiration to include.
+	 */
+	fromDate?: Date | number | string;
+	/**
+	 * Latest expiration to include.
+	 */
+	toDate?: Date | number | string;
+	expiryType?: expiryType;
+	strikePriceNear?: number;
+	/**
+	 * Strikes per expiration, centered around `strikePriceNear`.
+	 */
+	noOfStrikes?: number;
+	includeWeekly?: boolean;
+	skipAdjusted?: boolean;
+	optionCategory?: optionCategory;
+	priceType?: priceType;
+}
+
+export interface OptionSurface {
+	symbol: string;
+	/**
+	 * Underlying price E-Trade centered the chains around.
+	 */
+	nearPrice?: number;
+	/**
+	 * Expiration dates (`YYYY-MM-DD`) in ascending order.
+	 */
+	dates: string[];
+	expirations: Record<string, OptionSurfaceExpiration>;
+}
+
+export interface OptionSurfaceExpiration {
+	date: string;
+	expiry: Date;
+	expiryType: expiryType;
+	/**
+	 * Strike prices in ascending order.
+	 */
+	strikePrices: number[];
+	/**
+	 * Keyed by strike price.
+	 */
+	strikes: Record<string, OptionSurfaceStrike>;
+}
+
+export interface OptionSurfaceStrike {
+	strike: number;
+	call?: OptionSurfaceContract;
+	put?: OptionSurfaceContract;
+}
+
+export interface OptionSurfaceContract extends OptionContract {
+	osiKey: string;
+	displaySymbol: string;
+	bid: number;
+	ask: number;
+	/**
+	 * Midpoint of the bid and ask, unset without an ask.
+	 */
+	mid?: number;
+	bidSize: number;
+	askSize: number;
+	last: number;
+	netChange: number;
+	volume: number;
+	openInterest: number;
+	inTheMoney: boolean;
+	greeks?: Omit<OptionGreeks, 'currentValue'>;
+	timeStamp: number;
 }
 
 export interface GetOptionExpireDatesRequest {
@@ -952,6 +2825,20 @@ export interface PreviewOrderResponse {
 	clientOrderId: string;
 }
 
+/**
+ * Called with the preview of an order, resolve `true` to place it.
+ */
+export type OrderApproval = (preview: PreviewOrderResponse, request: PreviewOrderRequest) => boolean | Promise<boolean>;
+
+export interface SubmitOrderResult {
+	approved: boolean;
+	preview: PreviewOrderResponse;
+	/**
+	 * The placed order, unset if the preview wasn't approved.
+	 */
+	order?: PlaceOrderResponse;
+}
+
 export interface PlaceOrderRequest {
 	accountIdKey: string;
 	orderType: orderType;
@@ -991,6 +2878,56 @@ export interface CancelOrderResponse {
 	Messages: Messages;
 }
 
+export interface CancelAllOrdersRequest {
+	accountIdKey: string;
+	symbol?: string;
+	securityType?: securityType;
+}
+
+export interface CancelOrderReport {
+	orderId: number;
+	symbols: string[];
+	success: boolean;
+	response?: CancelOrderResponse;
+	error?: Error;
+}
+
+export interface FlattenPositionsRequest {
+	accountIdKey: string;
+	/**
+	 * Underlying symbols to flatten, every position if unset.
+	 */
+	symbols?: string[];
+	/**
+	 * Milliseconds to wait for cancelled orders to be confirmed before closing positions, positions with unconfirmed cancels are left open.
+	 */
+	cancelTimeout?: number;
+}
+
+export interface ClosePositionReport {
+	positionId: number;
+	/**
+	 * Symbol of the position, the OSI key for options.
+	 */
+	symbol: string;
+	quantity: number;
+	/**
+	 * Unset if the position can't be closed.
+	 */
+	orderAction?: orderAction;
+	success: boolean;
+	order?: PlaceOrderResponse;
+	error?: Error;
+}
+
+export interface FlattenPositionsReport {
+	/**
+	 * Open orders cancelled, and orders whose cancel was already requested, before closing positions.
+	 */
+	cancelled: CancelOrderReport[];
+	closed: ClosePositionReport[];
+}
+
 export interface ChangePreviewedOrderRequest extends PreviewOrderRequest {
 	orderId: number;
 }
@@ -999,6 +2936,33 @@ export interface PlaceChangedOrderRequest extends PlaceOrderRequest {
 	orderId: number;
 }
 
+/**
+ * Changes to an open order, unset fields are kept as they are.
+ */
+export interface OrderPatch {
+	limitPrice?: number;
+	stopPrice?: number;
+	/**
+	 * New quantity of a single leg order, or of each leg in order.
+	 */
+	quantity?: number | number[];
+	orderTerm?: orderTerm;
+	/**
+	 * Expiration of a `GOOD_TILL_DATE` order, also sets `orderTerm` to `GOOD_TILL_DATE`.
+	 */
+	goodTillDate?: Date | number | string;
+	allOrNone?: boolean;
+}
+
+export interface ModifyOrderResult {
+	/**
+	 * The order as it was before the change.
+	 */
+	previous: Order;
+	preview: PreviewOrderResponse;
+	order: PlaceOrderResponse;
+}
+
 /* E-Trade Interfaces */
 export interface PreviewId {
 	previewId: number;
@@ -1078,6 +3042,10 @@ export interface OrderDetail {
 	status: orderStatus;
 	orderType: orderType;
 	orderTerm: orderTerm;
+	/**
+	 * Expiration of a `GOOD_TILL_DATE` order, formatted as MMDDYYYY.
+	 */
+	goodTillDate: string;
 	priceType: orderPriceType;
 	priceValue: string;
 	limitPrice: number;
@@ -1122,6 +3090,7 @@ export interface OrderDetail {
 
 export interface Order {
 	orderId: number;
+	clientOrderId?: string;
 	details: string;
 	orderType: string;
 	totalOrderValue: number;
@@ -0,0 +1,102 @@
+'use strict';
+
+/* Dependencies */
+import { EventEmitter } from 'events';
+import {
+	ETrade,
+	ETradeInitOptions,
+	ETradeOptions
+} from './e-trade-api';
+
+/* Main Class */
+export class ETradePool extends EventEmitter {
+
+	/**
+	 * Client events re-emitted by the pool, prefixed with the user id.
+	 */
+	static events: string[] = [
+		'sessionExpiring',
+		'sessionExpired',
+		'sessionRenewFailed',
+		'request',
+		'response',
+		'error',
+		'throttled',
+		'retry'
+	];
+
+	/**
+	 * Consumer level client, without a user access token, that every user client is forked from.
+	 */
+	public readonly client: ETrade;
+
+	private clients: Map<string, ETrade> = new Map();
+
+	constructor(options?: ETradeInitOptions){
+		super();
+
+		this.client = new ETrade({
+			...(options || {}),
+			accessToken: '',
+			accessSecret: '',
+			tokenStore: undefined
+		});
+	}
+
+	add(userId: string, options: Partial<ETradeUserOptions>): ETrade {
+		if(this.clients.has(userId)){
+			throw new Error(`User already exists in pool: ${userId}`);
+		}
+
+		const client = this.client.fork(options);
+
+		ETradePool.events.forEach((event) => {
+			client.on(event, (...args: any[]) => {
+				if(event === 'error' && this.listenerCount('error') === 0){
+					return;
+				}
+
+				this.emit(event, userId, ...args);
+			});
+		});
+
+		this.clients.set(userId, client);
+
+		return client;
+	}
+
+	get(userId: string): ETrade {
+		const client = this.clients.get(userId);
+
+		if(!client){
+			throw new Error(`Unknown user in pool: ${userId}`);
+		}
+
+		return client;
+	}
+
+	has(userId: string): boolean {
+		return this.clients.has(userId);
+	}
+
+	remove(userId: string): boolean {
+		const client = this.clients.get(userId);
+
+		if(!client){
+			return false;
+		}
+
+		client.session.stop();
+		client.removeAllListeners();
+
+		return this.clients.delete(userId);
+	}
+
+	users(): string[] {
+		return Array.from(this.clients.keys());
+	}
+
+}
+
+/* Interfaces / Types */
+export type ETradeUserOptions = Pick<ETradeOptions, 'accessToken' | 'accessSecret' | 'tokenStore' | 'orderJournal' | 'session' | 'risk' | 'onAuthFailure'>;
@@ -0,0 +1,218 @@
+'use strict';
+
+/* Dependencies */
+import {
+	parse as parseQueryString
+} from 'querystring';
+import type { AxiosRequestConfig } from 'axios';
+import type { Message } from './e-trade-api';
+
+/* Globals */
+/**
+ * `oauth_problem` values and E-Trade `Error.code`s that identify the failure better than the HTTP status they're sent with.
+ */
+const AUTH_CODES = [ 'token_expired', 'token_rejected', 'token_revoked', 'token_used', 'signature_invalid', 'signature_method_rejected', 'consumer_key_unknown', 'consumer_key_rejected', 'consumer_key_refused', 'nonce_used', 'timestamp_refused', 'permission_denied', 'permission_unknown', 'additional_authorization_required', 'user_refused' ];
+const INVALID_SYMBOL_CODE = '10033'; // "<symbol> is not a valid symbol", sent by the market APIs with a 400 or 500
+const VALIDATION_CODES = [ 'parameter_absent', 'parameter_rejected', INVALID_SYMBOL_CODE ];
+
+/* Helpers */
+const parseOAuthProblem = (data: string): any => {
+	const results = parseQueryString(data);
+
+	if(!results.oauth_problem){
+		return undefined;
+	}
+
+	return {
+		Error: {
+			code: '' + results.oauth_problem,
+			message: '' + results.oauth_problem
+		}
+	};
+};
+
+/* Errors */
+export class ETradeError extends Error {
+
+	/**
+	 * E-Trade's `Error.code` if provided, otherwise the HTTP status code or, for network errors, the system error code (ie. `ECONNRESET`).
+	 */
+	public code?: number | string;
+	public status?: number;
+	public headers?: Record<string, any>;
+	public endpoint?: string;
+	public method?: string;
+	/**
+	 * Sequential id of the request, matching the `e-trade:request` and `e-trade:response` debug output.
+	 */
+	public requestId?: number;
+	public messages: Message[];
+	public raw?: any;
+
+	constructor(message: string, details?: ETradeErrorDetails){
+		super(message);
+
+		this.name = new.target.name;
+		this.messages = [];
+
+		if(details){
+			Object.assign(this, details);
+		}
+	}
+
+	/**
+	 * Converts a failed request into the most specific error class available, from E-Trade's `Error.code` when it's a known one, otherwise from the HTTP status.
+	 */
+	static from(err: any, request: AxiosRequestConfig, requestId?: number): ETradeError {
+		if(err instanceof ETradeError){
+			return err;
+		}
+
+		const details: ETradeErrorDetails = {
+			endpoint: [
+				request.baseURL || '',
+				request.url || ''
+			].join(''),
+			method: (request.method || 'GET').toUpperCase(),
+			requestId: requestId
+		};
+
+		if(!err || !err.response){
+			if(!err || !err.isAxiosError){
+				return err;
+			}
+
+			return new ETradeNetworkError(err.message, {
+				...details,
+				code: err.code
+			});
+		}
+
+		const response = err.response;
+		const data = typeof(response.data) === 'string' ? parseOAuthProblem(response.data) : response.data;
+
+		let message: string = response.statusText;
+		let code: number | string = response.status;
+		const messages: Message[] = [];
+
+		if(data && data.Error){
+			if(data.Error.code){
+				code = data.Error.code;
+			}
+
+			if(data.Error.message){
+				message = data.Error.message;
+			}
+
+			messages.push({
+				code: data.Error.code,
+				description: data.Error.message,
+				type: 'ERROR'
+			});
+		}
+
+		if(data && data.Messages && data.Messages.Message){
+			messages.push(...data.Messages.Message);
+		}
+
+		Object.assign(details, {
+			code: code,
+			status: response.status,
+			headers: response.headers,
+			messages: messages,
+			raw: response.data
+		});
+
+		if(data && data.Error && data.Error.code){
+			const errorCode = '' + data.Error.code;
+
+			if(AUTH_CODES.includes(errorCode)){
+				return new ETradeAuthError(message, details);
+			}
+
+			if(VALIDATION_CODES.includes(errorCode)){
+				return new ETradeValidationError(message, details);
+			}
+		}
+
+		if(response.status === 401){
+			return new ETradeAuthError(message, details);
+		}
+
+		if(response.status === 429){
+			return new ETradeRateLimitError(message, details);
+		}
+
+		if(response.status === 404){
+			return new ETradeNotFoundError(message, details);
+		}
+
+		if(response.status === 400){
+			if(/\/orders\//.test(details.endpoint || '')){
+				return new ETradeOrderRejectedError(message, details);
+			}
+
+			return new ETradeValidationError(message, details);
+		}
+
+		return new ETradeError(message, details);
+	}
+
+}
+
+/**
+ * The access token is missing, expired, inactive or rejected.
+ */
+export class ETradeAuthError extends ETradeError {}
+
+/**
+ * Too many requests, see `Retry-After` in `headers`.
+ */
+export class ETradeRateLimitError extends ETradeError {}
+
+/**
+ * The request parameters were rejected, by E-Trade or by validation before the request was sent.
+ */
+export class ETradeValidationError extends ETradeError {}
+
+/**
+ * An order preview, placement, change or cancellation was rejected, see `code` and `messages` for the reason.
+ */
+export class ETradeOrderRejectedError extends ETradeError {}
+
+/**
+ * An order was stopped by the `risk` limits before reaching E-Trade, `code` is the first limit broken and `messages` lists all of them.
+ */
+export class ETradeRiskError extends ETradeOrderRejectedError {}
+
+/**
+ * No response was received, see `code` for the system error code.
+ */
+export class ETradeNetworkError extends ETradeError {}
+
+/**
+ * The account, order, alert or other resource requested doesn't exist.
+ */
+export class ETradeNotFoundError extends ETradeError {}
+
+/**
+ * The request was cancelled through its `signal`, either while waiting for the rate limiter or in flight.
+ */
+export class ETradeAbortError extends ETradeError {}
+
+/**
+ * The request did not complete within its `timeout`, including time spent waiting for the rate limiter and retrying.
+ */
+export class ETradeTimeoutError extends ETradeAbortError {}
+
+/* Interfaces / Types */
+export interface ETradeErrorDetails {
+	code?: number | string;
+	status?: number;
+	headers?: Record<string, any>;
+	endpoint?: string;
+	method?: string;
+	requestId?: number;
+	messages?: Message[];
+	raw?: any;
+}
@@ -0,0 +1,148 @@
+'use strict';
+
+/* Globals */
+const TIME_ZONE = 'America/New_York';
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+	timeZone: TIME_ZONE,
+	hour12: false,
+	weekday: 'short',
+	year: 'numeric',
+	month: '2-digit',
+	day: '2-digit',
+	hour: '2-digit',
+	minute: '2-digit',
+	second: '2-digit'
+});
+
+const WEEKDAYS = [ 'Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat' ];
+
+// Minutes after midnight, US Eastern
+const REGULAR_HOURS = [ 9 * 60 + 30, 16 * 60 ];
+const EXTENDED_HOURS = [ 4 * 60, 20 * 60 ];
+
+/* Functions */
+export const getEasternTime = (date: Date | number = Date.now()): EasternTime => {
+	const parts: Record<string, string> = {};
+
+	formatter.formatToParts(new Date(date)).forEach((part) => {
+		parts[part.type] = part.value;
+	});
+
+	return {
+		year: +parts.year,
+		month: +parts.month,
+		day: +parts.day,
+		// Some ICU versions format midnight as 24
+		hour: +parts.hour % 24,
+		minute: +parts.minute,
+		second: +parts.second,
+		weekday: WEEKDAYS.indexOf(parts.weekday)
+	};
+};
+
+/**
+ * Offset, in milliseconds, of US Eastern wall time from UTC at the given instant.
+ */
+export const getEasternOffset = (date: Date | number = Date.now()): number => {
+	const time = new Date(date).getTime();
+	const eastern = getEasternTime(time);
+
+	const wallTime = Date.UTC(eastern.year, eastern.month - 1, eastern.day, eastern.hour, eastern.minute, eastern.second);
+
+	return wallTime - (time - (time % 1000));
+};
+
+/**
+ * Converts a US Eastern wall time into epoch milliseconds.
+ */
+export const fromEasternTime = (year: number, month: number, day: number, hour: number = 0, minute: number = 0, second: number = 0): number => {
+	const wallTime = Date.UTC(year, month - 1, day, hour, minute, second);
+
+	// Offset changes (DST) never fall near midnight, but resolve twice to be safe
+	const guess = wallTime - getEasternOffset(wallTime);
+
+	return wallTime - getEasternOffset(guess);
+};
+
+/**
+ * Returns the epoch milliseconds of the first US Eastern midnight after the given instant.
+ */
+export const getNextEasternMidnight = (date: Date | number = Date.now()): number => {
+	const eastern = getEasternTime(date);
+
+	return fromEasternTime(eastern.year, eastern.month, eastern.day + 1);
+};
+
+/**
+ * Formats the US Eastern date of the given instant as MMDDYYYY, the date format of E-Trade's request parameters.
+ */
+export const formatEasternDate = (date: Date | number = Date.now()): string => {
+	const eastern = getEasternTime(date);
+
+	return [
+		eastern.month,
+		eastern.day,
+		eastern.year
+	].map((value) => {
+		return ('' + value).padStart(2, '0');
+	}).join('');
+};
+
+/**
+ * Whether US equity markets are open at the given instant, Monday through Friday 9:30 to 16:00 Eastern, or 4:00 to 20:00 with `extendedHours`.
+ *
+ * Exchange holidays are not accounted for.
+ */
+export const isMarketOpen = (date: Date | number = Date.now(), extendedHours: boolean = false): boolean => {
+	const eastern = getEasternTime(date);
+	const [ open, close ] = extendedHours ? EXTENDED_HOURS : REGULAR_HOURS;
+	const minutes = eastern.hour * 60 + eastern.minute;
+
+	return eastern.weekday >= 1 && eastern.weekday <= 5 && minutes >= open && minutes < close;
+};
+
+/**
+ * Returns the epoch milliseconds of the next market open after the given instant, or the instant itself if the market is open.
+ */
+export const getNextMarketOpen = (date: Date | number = Date.now(), extendedHours: boolean = false): number => {
+	const time = new Date(date).getTime();
+
+	if(isMarketOpen(time, extendedHours)){
+		return time;
+	}
+
+	const eastern = getEasternTime(time);
+	const [ open ] = extendedHours ? EXTENDED_HOURS : REGULAR_HOURS;
+
+	// Today's open if it's still ahead, otherwise the first weekday after today
+	for(let offset = 0; offset <= 7; ++offset){
+		const weekday = (eastern.weekday + offset) % 7;
+
+		if(weekday === 0 || weekday === 6){
+			continue;
+		}
+
+		const opensAt = fromEasternTime(eastern.year, eastern.month, eastern.day + offset, Math.floor(open / 60), open % 60);
+
+		if(opensAt > time){
+			return opensAt;
+		}
+	}
+
+	return time;
+};
+
+/* Interfaces / Types */
+export interface EasternTime {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	/**
+	 * 0 (Sunday) through 6 (Saturday)
+	 */
+	weekday: number;
+}
@@ -0,0 +1,648 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	ChangePreviewedOrderRequest,
+	Instrument,
+	Message,
+	OptionDetails,
+	OrderDetail,
+	PreviewOrderRequest,
+	offsetType,
+	orderAction,
+	orderPriceType,
+	orderTerm,
+	orderType,
+	quantityType,
+	routingDestination
+} from './e-trade-api';
+import { ETradeValidationError } from './errors';
+import {
+	formatEasternDate,
+	fromEasternTime,
+	getNextEasternMidnight
+} from './market-time';
+import { createClientOrderId } from './order-journal';
+import {
+	OptionContract,
+	toOptionContract,
+	toOptionProduct
+} from './osi';
+
+/* Globals */
+const MAX_CLIENT_ORDER_ID_LENGTH = 20;
+
+const EQUITY_ACTIONS: orderAction[] = [ 'BUY', 'SELL', 'SELL_SHORT', 'BUY_TO_COVER' ];
+const OPTION_ACTIONS: orderAction[] = [ 'BUY_OPEN', 'SELL_OPEN', 'BUY_CLOSE', 'SELL_CLOSE' ];
+const FUND_ACTIONS: orderAction[] = [ 'BUY', 'SELL', 'EXCHANGE' ];
+
+const NET_PRICE_TYPES: orderPriceType[] = [ 'NET_DEBIT', 'NET_CREDIT', 'NET_EVEN' ];
+const OPEN_CLOSE_PRICE_TYPES: orderPriceType[] = [ 'MARKET_ON_OPEN', 'MARKET_ON_CLOSE', 'LIMIT_ON_OPEN', 'LIMIT_ON_CLOSE' ];
+const LIMIT_PRICE_TYPES: orderPriceType[] = [ 'LIMIT', 'STOP_LIMIT', 'LIMIT_ON_OPEN', 'LIMIT_ON_CLOSE', 'NET_DEBIT', 'NET_CREDIT' ];
+const STOP_PRICE_TYPES: orderPriceType[] = [ 'STOP', 'STOP_LIMIT' ];
+const TRAILING_PRICE_TYPES: orderPriceType[] = [ 'TRAILING_STOP_CNST', 'TRAILING_STOP_PRCT' ];
+
+/* Helpers */
+const isPositive = (value: any): boolean => {
+	return typeof(value) === 'number' && isFinite(value) && value > 0;
+};
+
+const assertValid = (errors: string[]): void => {
+	if(errors.length > 0){
+		throw new ETradeValidationError(`Invalid order: ${errors.join('; ')}`, {
+			messages: errors.map((error) => {
+				return {
+					description: error,
+					type: 'ERROR'
+				} as Message;
+			})
+		});
+	}
+};
+
+/**
+ * MMDDYYYY to the US Eastern midnight starting that day.
+ */
+const parseDate = (date: string): Date => {
+	return new Date(fromEasternTime(+date.slice(4, 8), +date.slice(0, 2), +date.slice(2, 4)));
+};
+
+/**
+ * Calendar dates (`YYYY-MM-DD` or `MMDDYYYY`) are US Eastern dates, anything else is an instant.
+ */
+const toDate = (date: Date | number | string): Date => {
+	if(typeof(date) === 'string'){
+		const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+
+		if(match){
+			return new Date(fromEasternTime(+match[1], +match[2], +match[3]));
+		}
+
+		if(/^\d{8}$/.test(date.trim())){
+			return parseDate(date.trim());
+		}
+	}
+
+	return new Date(date);
+};
+
+/* Main Class */
+export class OrderBuilder {
+
+	private _accountIdKey: string | undefined;
+	private _clientOrderId: string | number | undefined;
+	private _orderType: orderType | undefined;
+	private legs: Partial<Instrument>[] = [];
+	private detail: Partial<OrderDetail> = {
+		orderTerm: 'GOOD_FOR_DAY',
+		marketSession: 'REGULAR',
+		allOrNone: false
+	};
+	private expiresOn: Date | undefined;
+
+	constructor(accountIdKey?: string){
+		this._accountIdKey = accountIdKey;
+	}
+
+	/**
+	 * Starts a builder from an existing order, ie. a `listOrders` entry to change, keeping only the fields the builder manages.
+	 */
+	static from(detail: Partial<OrderDetail>, accountIdKey?: string): OrderBuilder {
+		const builder = new OrderBuilder(accountIdKey);
+		const { priceType } = detail;
+
+		(detail.Instrument || []).forEach((instrument) => {
+			builder.leg({
+				Product: instrument.Product ? { ...instrument.Product } : undefined,
+				orderAction: instrument.orderAction,
+				quantityType: instrument.quantityType || 'QUANTITY',
+				quantity: instrument.quantity !== undefined ? +instrument.quantity : instrument.orderedQuantity
+			});
+		});
+
+		if(priceType){
+			// Listed orders carry zeroed prices the price type doesn't use
+			const fields: Partial<OrderDetail> = {};
+
+			if(LIMIT_PRICE_TYPES.includes(priceType)){
+				fields.limitPrice = +(detail.limitPrice as number);
+			}
+
+			if(STOP_PRICE_TYPES.includes(priceType)){
+				fields.stopPrice = +(detail.stopPrice as number);
+			}
+
+			if(TRAILING_PRICE_TYPES.includes(priceType)){
+				fields.offsetType = detail.offsetType;
+				fields.offsetValue = detail.offsetValue;
+			}
+
+			builder.price(priceType, fields);
+		}
+
+		if(detail.orderTerm === 'GOOD_TILL_DATE' && detail.goodTillDate){
+			builder.goodTillDate(parseDate(detail.goodTillDate));
+		}else
+		if(detail.orderTerm){
+			builder.term(detail.orderTerm);
+		}
+
+		if(detail.marketSession){
+			builder.detail.marketSession = detail.marketSession;
+		}
+
+		if(detail.allOrNone !== undefined){
+			builder.allOrNone(detail.allOrNone);
+		}
+
+		if(detail.routingDestination){
+			builder.route(detail.routingDestination);
+		}
+
+		return builder;
+	}
+
+	account(accountIdKey: string): this {
+		this._accountIdKey = accountIdKey;
+
+		return this;
+	}
+
+	clientOrderId(clientOrderId: string | number): this {
+		this._clientOrderId = clientOrderId;
+
+		return this;
+	}
+
+	/**
+	 * Overrides the order type, which is otherwise derived from the legs.
+	 */
+	orderType(orderType: orderType): this {
+		this._orderType = orderType;
+
+		return this;
+	}
+
+	/* Legs */
+	buy(symbol: string, quantity: number): this {
+		return this.equity('BUY', symbol, quantity);
+	}
+
+	sell(symbol: string, quantity: number): this {
+		return this.equity('SELL', symbol, quantity);
+	}
+
+	sellShort(symbol: string, quantity: number): this {
+		return this.equity('SELL_SHORT', symbol, quantity);
+	}
+
+	buyToCover(symbol: string, quantity: number): this {
+		return this.equity('BUY_TO_COVER', symbol, quantity);
+	}
+
+	/**
+	 * `option` may be an OSI or display symbol, a `getOptionChains` entry or an `OptionContract`.
+	 */
+	buyToOpen(option: BuilderOption, quantity: number): this {
+		return this.option('BUY_OPEN', option, quantity);
+	}
+
+	sellToOpen(option: BuilderOption, quantity: number): this {
+		return this.option('SELL_OPEN', option, quantity);
+	}
+
+	buyToClose(option: BuilderOption, quantity: number): this {
+		return this.option('BUY_CLOSE', option, quantity);
+	}
+
+	sellToClose(option: BuilderOption, quantity: number): this {
+		return this.option('SELL_CLOSE', option, quantity);
+	}
+
+	/**
+	 * Adds a leg as is, for anything the shorthands don't cover (ie. mutual funds).
+	 */
+	leg(instrument: Partial<Instrument>): this {
+		this.legs.push(instrument);
+
+		return this;
+	}
+
+	/**
+	 * Sets the quantity type of the last leg added.
+	 */
+	quantityType(quantityType: quantityType): this {
+		const leg = this.legs[this.legs.length - 1];
+
+		if(leg){
+			leg.quantityType = quantityType;
+		}
+
+		return this;
+	}
+
+	/* Price Types */
+	market(): this {
+		return this.price('MARKET');
+	}
+
+	limit(limitPrice: number): this {
+		return this.price('LIMIT', {
+			limitPrice: limitPrice
+		});
+	}
+
+	stop(stopPrice: number): this {
+		return this.price('STOP', {
+			stopPrice: stopPrice
+		});
+	}
+
+	stopLimit(stopPrice: number, limitPrice: number): this {
+		return this.price('STOP_LIMIT', {
+			stopPrice: stopPrice,
+			limitPrice: limitPrice
+		});
+	}
+
+	/**
+	 * Trailing stop `offset` dollars, or percent with `percent`, behind the market.
+	 */
+	trailingStop(offset: number, percent: boolean = false): this {
+		const type: offsetType = percent ? 'TRAILING_STOP_PRCT' : 'TRAILING_STOP_CNST';
+
+		return this.price(type, {
+			offsetType: type,
+			offsetValue: offset
+		});
+	}
+
+	marketOnOpen(): this {
+		return this.price('MARKET_ON_OPEN');
+	}
+
+	marketOnClose(): this {
+		return this.price('MARKET_ON_CLOSE');
+	}
+
+	limitOnOpen(limitPrice: number): this {
+		return this.price('LIMIT_ON_OPEN', {
+			limitPrice: limitPrice
+		});
+	}
+
+	limitOnClose(limitPrice: number): this {
+		return this.price('LIMIT_ON_CLOSE', {
+			limitPrice: limitPrice
+		});
+	}
+
+	netDebit(limitPrice: number): this {
+		return this.price('NET_DEBIT', {
+			limitPrice: limitPrice
+		});
+	}
+
+	netCredit(limitPrice: number): this {
+		return this.price('NET_CREDIT', {
+			limitPrice: limitPrice
+		});
+	}
+
+	netEven(): this {
+		return this.price('NET_EVEN');
+	}
+
+	/* Terms */
+	goodForDay(): this {
+		return this.term('GOOD_FOR_DAY');
+	}
+
+	goodUntilCancel(): this {
+		return this.term('GOOD_UNTIL_CANCEL');
+	}
+
+	/**
+	 * Date strings (`YYYY-MM-DD` or `MMDDYYYY`) are US Eastern dates, a `Date` or timestamp expires on its US Eastern date.
+	 */
+	goodTillDate(date: Date | number | string): this {
+		this.term('GOOD_TILL_DATE');
+
+		this.expiresOn = toDate(date);
+
+		return this;
+	}
+
+	immediateOrCancel(): this {
+		return this.term('IMMEDIATE_OR_CANCEL');
+	}
+
+	fillOrKill(): this {
+		return this.term('FILL_OR_KILL');
+	}
+
+	/* Sessions */
+	regularHours(): this {
+		this.detail.marketSession = 'REGULAR';
+
+		return this;
+	}
+
+	extendedHours(): this {
+		this.detail.marketSession = 'EXTENDED';
+
+		return this;
+	}
+
+	allOrNone(allOrNone: boolean = true): this {
+		this.detail.allOrNone = allOrNone;
+
+		return this;
+	}
+
+	route(routingDestination: routingDestination): this {
+		this.detail.routingDestination = routingDestination;
+
+		return this;
+	}
+
+	/* Output */
+	/**
+	 * Returns every rule the order breaks, empty if it's valid.
+	 */
+	validate(): string[] {
+		const errors: string[] = [];
+
+		if(!this._accountIdKey){
+			errors.push('An accountIdKey is required');
+		}
+
+		if(this._clientOrderId !== undefined && ('' + this._clientOrderId).length > MAX_CLIENT_ORDER_ID_LENGTH){
+			errors.push(`clientOrderId must be at most ${MAX_CLIENT_ORDER_ID_LENGTH} characters`);
+		}
+
+		return errors.concat(this.validateDetail());
+	}
+
+	/**
+	 * Returns the `previewOrder` request, throwing an `ETradeValidationError` listing every rule the order breaks.
+	 *
+	 * Without a `clientOrderId`, one is generated on the first build and reused by later builds.
+	 */
+	build(): PreviewOrderRequest {
+		assertValid(this.validate());
+
+		if(this._clientOrderId === undefined || this._clientOrderId === ''){
+			this._clientOrderId = createClientOrderId();
+		}
+
+		return {
+			accountIdKey: this._accountIdKey as string,
+			orderType: this._orderType || this.getOrderType(),
+			clientOrderId: this._clientOrderId as string | number,
+			order: [ this.toOrderDetail() ]
+		};
+	}
+
+	/**
+	 * Returns the `changePreviewedOrder` request replacing `orderId`.
+	 */
+	buildChange(orderId: number): ChangePreviewedOrderRequest {
+		return {
+			...this.build(),
+			orderId: orderId
+		};
+	}
+
+	/**
+	 * Returns just the validated `OrderDetail`, ie. to combine into an order group. The account and `clientOrderId` are not required.
+	 */
+	toOrderDetail(): Partial<OrderDetail> {
+		assertValid(this.validateDetail());
+
+		const detail: Partial<OrderDetail> = {
+			...this.detail,
+			Instrument: this.legs.map((leg) => {
+				return {
+					quantityType: 'QUANTITY',
+					...leg
+				};
+			})
+		};
+
+		if(this.expiresOn && detail.orderTerm === 'GOOD_TILL_DATE'){
+			detail.goodTillDate = formatEasternDate(this.expiresOn);
+		}
+
+		return detail;
+	}
+
+	private validateDetail(): string[] {
+		const errors: string[] = [];
+		const { priceType, orderTerm, marketSession } = this.detail;
+		const limitPrice = this.detail.limitPrice;
+		const stopPrice = this.detail.stopPrice;
+
+		if(this.legs.length === 0){
+			errors.push('At least one leg is required, ie. buy(symbol, quantity)');
+		}
+
+		const securityTypes = this.legs.map((leg) => {
+			return (leg.Product && leg.Product.securityType) || 'EQ';
+		});
+
+		const hasOptions = securityTypes.includes('OPTN');
+		const onlyEquities = securityTypes.every((securityType) => {
+			return securityType === 'EQ';
+		});
+
+		this.legs.forEach((leg, i) => {
+			const name = `Leg ${i + 1}`;
+			const securityType = securityTypes[i];
+			const quantityType = leg.quantityType || 'QUANTITY';
+
+			if(!leg.Product || !leg.Product.symbol){
+				errors.push(`${name} needs a symbol`);
+			}
+
+			const actions = securityType === 'OPTN' ? OPTION_ACTIONS : (securityType === 'MF' || securityType === 'MMF' ? FUND_ACTIONS : EQUITY_ACTIONS);
+
+			if(!leg.orderAction || !actions.includes(leg.orderAction)){
+				errors.push(`${name} orderAction must be one of ${actions.join(', ')} for ${securityType}`);
+			}
+
+			if(quantityType !== 'QUANTITY' && securityType !== 'MF' && securityType !== 'MMF'){
+				errors.push(`${name} quantityType ${quantityType} is only supported for mutual funds`);
+			}
+
+			if(quantityType === 'ALL_I_OWN'){
+				if(leg.orderAction === 'BUY'){
+					errors.push(`${name} quantityType ALL_I_OWN can only sell or exchange`);
+				}
+			}else
+			if(!isPositive(leg.quantity)){
+				errors.push(`${name} quantity must be a positive number`);
+			}else
+			if(quantityType === 'QUANTITY' && securityType !== 'MF' && securityType !== 'MMF' && !Number.isInteger(leg.quantity)){
+				errors.push(`${name} quantity must be a whole number`);
+			}
+		});
+
+		if(!priceType){
+			errors.push('A price type is required, ie. market() or limit(price)');
+		}else{
+			if(LIMIT_PRICE_TYPES.includes(priceType)){
+				if(!isPositive(limitPrice)){
+					errors.push(`${priceType} orders require a positive limitPrice`);
+				}
+			}else
+			if(limitPrice !== undefined){
+				errors.push(`${priceType} orders can't have a limitPrice`);
+			}
+
+			if(STOP_PRICE_TYPES.includes(priceType)){
+				if(!isPositive(stopPrice)){
+					errors.push(`${priceType} orders require a positive stopPrice`);
+				}else
+				if(priceType === 'STOP_LIMIT' && isPositive(limitPrice) && this.legs.length === 1 && this.legs[0].orderAction){
+					const buying = /^BUY/.test(this.legs[0].orderAction);
+
+					if(buying ? (limitPrice as number) < (stopPrice as number) : (limitPrice as number) > (stopPrice as number)){
+						errors.push(`STOP_LIMIT ${buying ? 'buy' : 'sell'} orders require a limitPrice ${buying ? 'at or above' : 'at or below'} the stopPrice`);
+					}
+				}
+			}else
+			if(stopPrice !== undefined){
+				errors.push(`${priceType} orders can't have a stopPrice`);
+			}
+
+			if(TRAILING_PRICE_TYPES.includes(priceType) && !isPositive(this.detail.offsetValue)){
+				errors.push(`${priceType} orders require a positive offset`);
+			}
+
+			if(NET_PRICE_TYPES.includes(priceType) && this.legs.length < 2){
+				errors.push(`${priceType} orders require at least two legs`);
+			}
+
+			if(this.legs.length > 1 && !NET_PRICE_TYPES.includes(priceType) && priceType !== 'MARKET'){
+				errors.push(`Multi-leg orders must be MARKET, NET_DEBIT, NET_CREDIT or NET_EVEN, not ${priceType}`);
+			}
+
+			if(OPEN_CLOSE_PRICE_TYPES.includes(priceType)){
+				if(!onlyEquities){
+					errors.push(`${priceType} orders are only supported for equities`);
+				}
+
+				if(orderTerm !== 'GOOD_FOR_DAY'){
+					errors.push(`${priceType} orders must be GOOD_FOR_DAY`);
+				}
+			}
+
+			if(priceType === 'MARKET' && orderTerm !== 'GOOD_FOR_DAY' && orderTerm !== 'IMMEDIATE_OR_CANCEL' && orderTerm !== 'FILL_OR_KILL'){
+				errors.push(`MARKET orders can't be ${orderTerm}`);
+			}
+		}
+
+		if(orderTerm === 'GOOD_TILL_DATE'){
+			if(!this.expiresOn || isNaN(this.expiresOn.getTime())){
+				errors.push('GOOD_TILL_DATE orders require a valid date');
+			}else
+			// Good through the end of its US Eastern date
+			if(getNextEasternMidnight(this.expiresOn) <= Date.now()){
+				errors.push('GOOD_TILL_DATE orders require a date no earlier than today');
+			}
+		}
+
+		if(marketSession === 'EXTENDED'){
+			if(priceType !== 'LIMIT'){
+				errors.push('Extended hours orders must be LIMIT orders');
+			}
+
+			if(orderTerm !== 'GOOD_FOR_DAY'){
+				errors.push('Extended hours orders must be GOOD_FOR_DAY');
+			}
+
+			if(!onlyEquities){
+				errors.push('Extended hours orders are only supported for equities');
+			}
+		}
+
+		if(hasOptions && this.detail.allOrNone && this.legs.length > 1){
+			errors.push('allOrNone is not supported for multi-leg option orders');
+		}
+
+		return errors;
+	}
+
+	private equity(orderAction: orderAction, symbol: string, quantity: number): this {
+		return this.leg({
+			Product: {
+				symbol: symbol.toUpperCase(),
+				securityType: 'EQ'
+			},
+			orderAction: orderAction,
+			quantityType: 'QUANTITY',
+			quantity: quantity
+		});
+	}
+
+	private option(orderAction: orderAction, option: BuilderOption, quantity: number): this {
+		const contract = toOptionContract(option);
+
+		if(!contract){
+			throw new ETradeValidationError(`Unable to read the option contract of ${typeof(option) === 'string' ? option : 'the given option'}`);
+		}
+
+		return this.leg({
+			Product: toOptionProduct(contract),
+			orderAction: orderAction,
+			quantityType: 'QUANTITY',
+			quantity: quantity
+		});
+	}
+
+	private price(priceType: orderPriceType, fields: Partial<OrderDetail> = {}): this {
+		// Switching price types drops the previous type's prices
+		delete this.detail.limitPrice;
+		delete this.detail.stopPrice;
+		delete this.detail.offsetType;
+		delete this.detail.offsetValue;
+
+		Object.assign(this.detail, fields, {
+			priceType: priceType
+		});
+
+		return this;
+	}
+
+	private term(orderTerm: orderTerm): this {
+		this.detail.orderTerm = orderTerm;
+		this.expiresOn = undefined;
+
+		return this;
+	}
+
+	private getOrderType(): orderType {
+		const securityTypes = this.legs.map((leg) => {
+			return (leg.Product && leg.Product.securityType) || 'EQ';
+		});
+
+		const options = securityTypes.filter((securityType) => {
+			return securityType === 'OPTN';
+		}).length;
+
+		if(options === 0){
+			return securityTypes[0] === 'MF' || securityTypes[0] === 'MMF' ? securityTypes[0] as orderType : 'EQ';
+		}
+
+		if(options < securityTypes.length){
+			return 'BUY_WRITES';
+		}
+
+		return options === 1 ? 'OPTN' : 'SPREADS';
+	}
+
+}
+
+/* Interfaces / Types */
+export type BuilderOption = string | OptionDetails | OptionContract;
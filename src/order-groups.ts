@@ -0,0 +1,420 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	Message,
+	Order,
+	OrderDetail,
+	PreviewOrderRequest,
+	conditionFollowPrice,
+	conditionType,
+	orderAction,
+	orderTerm
+} from './e-trade-api';
+import { ETradeValidationError } from './errors';
+import { OrderBuilder } from './order-builder';
+import { createClientOrderId } from './order-journal';
+
+/* Globals */
+const EXIT_ACTIONS: Partial<Record<orderAction, orderAction>> = {
+	BUY: 'SELL',
+	SELL_SHORT: 'BUY_TO_COVER',
+	BUY_OPEN: 'SELL_CLOSE',
+	SELL_OPEN: 'BUY_CLOSE'
+};
+
+const CONDITION_TYPES: conditionType[] = [ 'CONTINGENT_GTE', 'CONTINGENT_LTE' ];
+const CONDITION_FOLLOW_PRICES: conditionFollowPrice[] = [ 'ASK', 'BID', 'LAST' ];
+
+/* Helpers */
+const isPositive = (value: unknown): boolean => {
+	return typeof(value) === 'number' && isFinite(value) && value > 0;
+};
+
+const assertValid = (errors: string[]): void => {
+	if(errors.length > 0){
+		throw new ETradeValidationError(`Invalid order group: ${errors.join('; ')}`, {
+			messages: errors.map((error) => {
+				return {
+					description: error,
+					type: 'ERROR'
+				} as Message;
+			})
+		});
+	}
+};
+
+/**
+ * Validates a member of the group, adding its errors, prefixed by `name`, to `errors`.
+ */
+const toOrderDetail = (member: OrderGroupMember, name: string, errors: string[]): Partial<OrderDetail> => {
+	const builder = member instanceof OrderBuilder ? member : OrderBuilder.from(member);
+
+	try {
+		return builder.toOrderDetail();
+	}catch(err){
+		if(!(err instanceof ETradeValidationError)){
+			throw err;
+		}
+
+		err.messages.forEach((message) => {
+			errors.push(`${name}: ${message.description}`);
+		});
+
+		return {};
+	}
+};
+
+const toOrderDetails = (members: OrderGroupMember[], name: string, errors: string[]): Partial<OrderDetail>[] => {
+	return members.map((member, i) => {
+		return toOrderDetail(member, `${name}[${i}]`, errors);
+	});
+};
+
+const validateCondition = (condition: OrderCondition, errors: string[]): void => {
+	if(!condition.symbol){
+		errors.push('condition needs a symbol');
+	}
+
+	if(!CONDITION_TYPES.includes(condition.type)){
+		errors.push(`condition type must be one of ${CONDITION_TYPES.join(', ')}`);
+	}
+
+	if(!CONDITION_FOLLOW_PRICES.includes(condition.followPrice)){
+		errors.push(`condition followPrice must be one of ${CONDITION_FOLLOW_PRICES.join(', ')}`);
+	}
+
+	if(!isPositive(condition.price)){
+		errors.push('condition price must be a positive number');
+	}
+};
+
+/**
+ * Price the entry is expected to fill around, if it names one.
+ */
+const getEntryPrice = (detail: Partial<OrderDetail>): number | undefined => {
+	if(detail.priceType === 'STOP'){
+		return +(detail.stopPrice as number);
+	}
+
+	if(detail.priceType === 'LIMIT' || detail.priceType === 'STOP_LIMIT'){
+		return detail.limitPrice;
+	}
+
+	return undefined;
+};
+
+/* Functions */
+/**
+ * Turns an order group into a `previewOrder` request, validating every order in it.
+ *
+ * Orders may be `OrderBuilder`s or `OrderDetail`s, the latter are read through `OrderBuilder.from`. Throws an `ETradeValidationError` listing every rule the group breaks.
+ */
+export const buildOrderGroup = (group: OrderGroup<OrderGroupMember>, { accountIdKey, clientOrderId = createClientOrderId() }: OrderGroupOptions): PreviewOrderRequest => {
+	const errors: string[] = [];
+	let order: Partial<OrderDetail>[] = [];
+
+	if(!accountIdKey){
+		errors.push('An accountIdKey is required');
+	}
+
+	switch(group.orderType){
+		case 'ONE_CANCELS_ALL':
+			if(group.orders.length < 2){
+				errors.push('ONE_CANCELS_ALL groups require at least two orders');
+			}
+
+			order = toOrderDetails(group.orders, 'orders', errors);
+		break;
+		case 'ONE_TRIGGERS_ALL':
+		case 'ONE_TRIGGERS_OCO':
+			if(group.orderType === 'ONE_TRIGGERS_ALL' && group.orders.length < 1){
+				errors.push('ONE_TRIGGERS_ALL groups require at least one order besides the trigger');
+			}else
+			if(group.orderType === 'ONE_TRIGGERS_OCO' && group.orders.length < 2){
+				errors.push('ONE_TRIGGERS_OCO groups require at least two orders besides the trigger');
+			}
+
+			order = [
+				toOrderDetail(group.trigger, 'trigger', errors),
+				...toOrderDetails(group.orders, 'orders', errors)
+			];
+		break;
+		case 'CONTINGENT':
+			validateCondition(group.condition, errors);
+
+			order = [{
+				...toOrderDetail(group.order, 'order', errors),
+				conditionSymbol: (group.condition.symbol || '').toUpperCase(),
+				conditionSecurityType: group.condition.securityType || 'EQ',
+				conditionType: group.condition.type,
+				conditionPrice: group.condition.price,
+				conditionFollowPrice: group.condition.followPrice
+			}];
+		break;
+		default: {
+			// Only reachable from untyped callers
+			const unsupported: never = group;
+
+			errors.push(`Unsupported order group type ${(unsupported as { orderType?: unknown }).orderType}`);
+		}
+		break;
+	}
+
+	assertValid(errors);
+
+	return {
+		accountIdKey: accountIdKey,
+		orderType: group.orderType,
+		clientOrderId: clientOrderId,
+		order: order
+	};
+};
+
+/**
+ * Orders that cancel each other: once one executes, the others are cancelled.
+ */
+export const buildOcoOrder = ({ orders, ...options }: OcoOrderOptions): PreviewOrderRequest => {
+	return buildOrderGroup({
+		orderType: 'ONE_CANCELS_ALL',
+		orders: orders
+	}, options);
+};
+
+/**
+ * A single leg entry that, once executed, places a take-profit limit order and a stop-loss order cancelling each other (`ONE_TRIGGERS_OCO`).
+ *
+ * Both exits close the full entry quantity. `stopLossLimit` makes the stop-loss a `STOP_LIMIT` order.
+ */
+export const buildBracketOrder = ({ entry, takeProfit, stopLoss, stopLossLimit, exitOrderTerm = 'GOOD_FOR_DAY', ...options }: BracketOrderOptions): PreviewOrderRequest => {
+	const errors: string[] = [];
+	const detail = toOrderDetail(entry, 'entry', errors);
+
+	assertValid(errors);
+
+	const legs = detail.Instrument || [];
+	const leg = legs[0];
+	const exitAction = leg && leg.orderAction ? EXIT_ACTIONS[leg.orderAction] : undefined;
+
+	if(legs.length !== 1){
+		errors.push('The bracket entry must have exactly one leg');
+	}else
+	if(!exitAction){
+		errors.push(`The bracket entry must open a position with ${Object.keys(EXIT_ACTIONS).join(', ')}`);
+	}
+
+	if(!isPositive(takeProfit)){
+		errors.push('takeProfit must be a positive number');
+	}
+
+	if(!isPositive(stopLoss)){
+		errors.push('stopLoss must be a positive number');
+	}
+
+	if(exitOrderTerm !== 'GOOD_FOR_DAY' && exitOrderTerm !== 'GOOD_UNTIL_CANCEL'){
+		errors.push('exitOrderTerm must be GOOD_FOR_DAY or GOOD_UNTIL_CANCEL');
+	}
+
+	assertValid(errors);
+
+	// Long entries profit above the stop-loss, short entries below it
+	const long = /^BUY/.test(leg.orderAction as orderAction);
+	const entryPrice = getEntryPrice(detail);
+	const side = long ? 'above' : 'below';
+	const opposite = long ? 'below' : 'above';
+
+	if(long ? takeProfit <= stopLoss : takeProfit >= stopLoss){
+		errors.push(`takeProfit must be ${side} stopLoss for a ${long ? 'long' : 'short'} entry`);
+	}
+
+	if(entryPrice !== undefined){
+		if(long ? takeProfit <= entryPrice : takeProfit >= entryPrice){
+			errors.push(`takeProfit must be ${side} the entry price of ${entryPrice}`);
+		}
+
+		if(long ? stopLoss >= entryPrice : stopLoss <= entryPrice){
+			errors.push(`stopLoss must be ${opposite} the entry price of ${entryPrice}`);
+		}
+	}
+
+	assertValid(errors);
+
+	const createExit = (): OrderBuilder => {
+		const exit = new OrderBuilder().leg({
+			Product: leg.Product,
+			orderAction: exitAction,
+			quantityType: leg.quantityType,
+			quantity: leg.quantity
+		});
+
+		return exitOrderTerm === 'GOOD_UNTIL_CANCEL' ? exit.goodUntilCancel() : exit.goodForDay();
+	};
+
+	return buildOrderGroup({
+		orderType: 'ONE_TRIGGERS_OCO',
+		trigger: entry,
+		orders: [
+			createExit().limit(takeProfit),
+			stopLossLimit !== undefined ? createExit().stopLimit(stopLoss, stopLossLimit) : createExit().stop(stopLoss)
+		]
+	}, options);
+};
+
+/**
+ * An order only sent to the market once `condition.symbol`'s bid, ask or last price crosses `condition.price`.
+ */
+export const buildContingentOrder = ({ order, condition, ...options }: ContingentOrderOptions): PreviewOrderRequest => {
+	return buildOrderGroup({
+		orderType: 'CONTINGENT',
+		order: order,
+		condition: condition
+	}, options);
+};
+
+/**
+ * Reads an order group back from a `listOrders` entry, `undefined` if the order isn't a group.
+ */
+export const parseOrderGroup = (order: Order): ParsedOrderGroup | undefined => {
+	const [ first, ...rest ] = order.OrderDetail || [];
+
+	if(!first){
+		return undefined;
+	}
+
+	switch(order.orderType){
+		case 'ONE_CANCELS_ALL':
+			return {
+				orderType: order.orderType,
+				orders: order.OrderDetail
+			};
+		case 'ONE_TRIGGERS_ALL':
+		case 'ONE_TRIGGERS_OCO':
+			return {
+				orderType: order.orderType,
+				trigger: first,
+				orders: rest
+			};
+		case 'CONTINGENT':
+			return {
+				orderType: order.orderType,
+				order: first,
+				condition: {
+					symbol: first.conditionSymbol,
+					securityType: first.conditionSecurityType,
+					type: first.conditionType,
+					price: +first.conditionPrice,
+					followPrice: first.conditionFollowPrice
+				}
+			};
+		case 'BRACKETED':
+			return {
+				orderType: order.orderType,
+				order: first,
+				orders: rest
+			};
+		default:
+			return undefined;
+	}
+};
+
+/* Interfaces / Types */
+/**
+ * An order of a group, either a builder or an order detail.
+ */
+export type OrderGroupMember = OrderBuilder | Partial<OrderDetail>;
+
+export interface OrderCondition {
+	symbol: string;
+	/**
+	 * Defaults to `EQ`.
+	 */
+	securityType?: string;
+	/**
+	 * `CONTINGENT_GTE` triggers once the price is at or above `price`, `CONTINGENT_LTE` at or below it.
+	 */
+	type: conditionType;
+	price: number;
+	/**
+	 * Which of the symbol's prices is compared to `price`.
+	 */
+	followPrice: conditionFollowPrice;
+}
+
+export interface OneCancelsAllGroup<T = OrderDetail> {
+	orderType: 'ONE_CANCELS_ALL';
+	orders: T[];
+}
+
+export interface OneTriggersAllGroup<T = OrderDetail> {
+	orderType: 'ONE_TRIGGERS_ALL';
+	/**
+	 * Once executed, places every order of `orders`.
+	 */
+	trigger: T;
+	orders: T[];
+}
+
+export interface OneTriggersOcoGroup<T = OrderDetail> {
+	orderType: 'ONE_TRIGGERS_OCO';
+	/**
+	 * Once executed, places `orders` as a `ONE_CANCELS_ALL` group.
+	 */
+	trigger: T;
+	orders: T[];
+}
+
+export interface ContingentGroup<T = OrderDetail> {
+	orderType: 'CONTINGENT';
+	order: T;
+	condition: OrderCondition;
+}
+
+/**
+ * Reported by `listOrders` only, E-Trade's bracket prices are in `bracketedLimitPrice` and `initialStopPrice`.
+ */
+export interface BracketedGroup<T = OrderDetail> {
+	orderType: 'BRACKETED';
+	order: T;
+	orders: T[];
+}
+
+export type OrderGroup<T = OrderDetail> = OneCancelsAllGroup<T> | OneTriggersAllGroup<T> | OneTriggersOcoGroup<T> | ContingentGroup<T>;
+
+export type ParsedOrderGroup = OrderGroup | BracketedGroup;
+
+export interface OrderGroupOptions {
+	accountIdKey: string;
+	/**
+	 * Generated with `createClientOrderId` if not provided.
+	 */
+	clientOrderId?: string | number;
+}
+
+export interface OcoOrderOptions extends OrderGroupOptions {
+	orders: OrderGroupMember[];
+}
+
+export interface BracketOrderOptions extends OrderGroupOptions {
+	/**
+	 * A single leg order opening a position, ie. `BUY` or `SELL_OPEN`.
+	 */
+	entry: OrderGroupMember;
+	/**
+	 * Limit price of the exit taking profit.
+	 */
+	takeProfit: number;
+	/**
+	 * Stop price of the exit limiting losses.
+	 */
+	stopLoss: number;
+	stopLossLimit?: number;
+	/**
+	 * Term of both exits, `GOOD_FOR_DAY` or `GOOD_UNTIL_CANCEL`. Defaults to `GOOD_FOR_DAY`.
+	 */
+	exitOrderTerm?: orderTerm;
+}
+
+export interface ContingentOrderOptions extends OrderGroupOptions {
+	order: OrderGroupMember;
+	condition: OrderCondition;
+}
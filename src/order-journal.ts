@@ -0,0 +1,178 @@
+'use strict';
+
+/* Dependencies */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import type { PlaceOrderResponse } from './e-trade-api';
+
+/* Globals */
+const MAX_CLIENT_ORDER_ID_LENGTH = 20;
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+let sequence = 0;
+
+/* Helpers */
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const rename = promisify(fs.rename);
+const unlink = promisify(fs.unlink);
+
+const getKey = (accountIdKey: string, clientOrderId: string): string => {
+	return `${accountIdKey}:${clientOrderId}`;
+};
+
+const prune = (entries: Record<string, OrderJournalEntry>, maxAge: number): void => {
+	const cutoff = Date.now() - maxAge;
+
+	Object.keys(entries).forEach((key) => {
+		if(entries[key].submittedAt < cutoff){
+			delete entries[key];
+		}
+	});
+};
+
+/* Functions */
+/**
+ * Generates a unique `clientOrderId` within E-Trade's 20 character limit: a millisecond timestamp, a per-process random part and a counter, all base 36.
+ */
+export const createClientOrderId = (): string => {
+	sequence = (sequence + 1) % (36 * 36 * 36);
+
+	const id = [
+		Date.now().toString(36),
+		crypto.randomBytes(4).readUInt32BE(0).toString(36).padStart(7, '0').slice(-7),
+		sequence.toString(36).padStart(3, '0')
+	].join('');
+
+	return id.slice(-MAX_CLIENT_ORDER_ID_LENGTH);
+};
+
+/* Order Journals */
+export class MemoryOrderJournal implements OrderJournal {
+
+	private entries: Record<string, OrderJournalEntry> = {};
+	private maxAge: number;
+
+	constructor(maxAge: number = DEFAULT_MAX_AGE){
+		this.maxAge = maxAge;
+	}
+
+	load(accountIdKey: string, clientOrderId: string): OrderJournalEntry | undefined {
+		const entry = this.entries[getKey(accountIdKey, clientOrderId)];
+
+		return entry ? { ...entry } : undefined;
+	}
+
+	save(entry: OrderJournalEntry): void {
+		prune(this.entries, this.maxAge);
+
+		this.entries[getKey(entry.accountIdKey, entry.clientOrderId)] = { ...entry };
+	}
+
+	remove(accountIdKey: string, clientOrderId: string): void {
+		delete this.entries[getKey(accountIdKey, clientOrderId)];
+	}
+
+}
+
+export class FileOrderJournal implements OrderJournal {
+
+	public readonly path: string;
+
+	private maxAge: number;
+	private writing: Promise<void> = Promise.resolve();
+
+	constructor(filePath: string, maxAge: number = DEFAULT_MAX_AGE){
+		this.path = path.resolve(filePath);
+		this.maxAge = maxAge;
+	}
+
+	async load(accountIdKey: string, clientOrderId: string): Promise<OrderJournalEntry | undefined> {
+		// Wait for pending writes so a save followed by a load is consistent
+		await this.writing;
+
+		return (await this.read())[getKey(accountIdKey, clientOrderId)];
+	}
+
+	save(entry: OrderJournalEntry): Promise<void> {
+		return this.update((entries) => {
+			entries[getKey(entry.accountIdKey, entry.clientOrderId)] = entry;
+		});
+	}
+
+	remove(accountIdKey: string, clientOrderId: string): Promise<void> {
+		return this.update((entries) => {
+			delete entries[getKey(accountIdKey, clientOrderId)];
+		});
+	}
+
+	private async read(): Promise<Record<string, OrderJournalEntry>> {
+		let contents: string;
+
+		try {
+			contents = (await readFile(this.path)).toString();
+		}catch(err: any){
+			if(err.code === 'ENOENT'){
+				return {};
+			}
+
+			throw err;
+		}
+
+		return contents.trim() ? JSON.parse(contents) : {};
+	}
+
+	private update(fn: (entries: Record<string, OrderJournalEntry>) => void): Promise<void> {
+		// Serialize read-modify-write cycles so concurrent saves don't drop entries
+		const results = this.writing.catch(() => {}).then(async () => {
+			const entries = await this.read();
+
+			prune(entries, this.maxAge);
+			fn(entries);
+
+			const tmpPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+
+			await writeFile(tmpPath, JSON.stringify(entries, null, '\t'), {
+				mode: 0o600
+			});
+
+			try {
+				await rename(tmpPath, this.path);
+			}catch(err){
+				await unlink(tmpPath).catch(() => {});
+
+				throw err;
+			}
+		});
+
+		this.writing = results.catch(() => {});
+
+		return results;
+	}
+
+}
+
+/* Interfaces / Types */
+export type OrderJournalStatus = 'pending' | 'placed';
+
+export interface OrderJournalEntry {
+	accountIdKey: string;
+	clientOrderId: string;
+	/**
+	 * `pending` while `placeOrder` is in flight, or if it ended without a definitive answer (ie. a timeout).
+	 */
+	status: OrderJournalStatus;
+	/**
+	 * Epoch milliseconds of the first submission.
+	 */
+	submittedAt: number;
+	response?: PlaceOrderResponse;
+}
+
+export interface OrderJournal {
+	load(accountIdKey: string, clientOrderId: string): Promise<OrderJournalEntry | undefined> | OrderJournalEntry | undefined;
+	save(entry: OrderJournalEntry): Promise<void> | void;
+	remove(accountIdKey: string, clientOrderId: string): Promise<void> | void;
+}
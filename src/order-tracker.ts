@@ -0,0 +1,519 @@
+'use strict';
+
+/* Dependencies */
+import { EventEmitter } from 'events';
+import { debug } from 'debug';
+import type {
+	ETrade,
+	Instrument,
+	ListOrdersRequest,
+	Order,
+	orderStatus
+} from './e-trade-api';
+import {
+	ETradeAbortError,
+	ETradeError,
+	ETradeOrderRejectedError,
+	ETradeTimeoutError
+} from './errors';
+import {
+	formatEasternDate,
+	fromEasternTime,
+	getEasternTime
+} from './market-time';
+
+/* Debug */
+const debugTracker = debug('e-trade:order-tracker');
+
+/* Globals */
+const FINAL_STATUSES: orderStatus[] = [ 'EXECUTED', 'CANCELLED', 'REJECTED', 'EXPIRED', 'DONE_TRADE_EXECUTED', 'OPTION_EXERCISE', 'OPTION_ASSIGNMENT', 'DO_NOT_EXERCISE' ];
+const FILLED_STATUSES: orderStatus[] = [ 'EXECUTED', 'DONE_TRADE_EXECUTED' ];
+
+/* Helpers */
+const getStartOfDay = (date: number): number => {
+	const eastern = getEasternTime(date);
+
+	return fromEasternTime(eastern.year, eastern.month, eastern.day);
+};
+
+/* Main Class */
+export class OrderTracker extends EventEmitter {
+
+	static defaults: OrderTrackerOptions = {
+		interval: 5000,
+		priority: -1,
+		maxBackoff: 60 * 1000
+	};
+
+	public readonly accountIdKey: string;
+	public settings: OrderTrackerOptions;
+
+	private eTrade: ETrade;
+	private tracked: Map<number, TrackedOrder> = new Map();
+	private timer: NodeJS.Timeout | undefined;
+	private polling: boolean = false;
+	private failures: number = 0;
+
+	constructor(eTrade: ETrade, accountIdKey: string, options?: Partial<OrderTrackerOptions>){
+		super();
+
+		this.eTrade = eTrade;
+		this.accountIdKey = accountIdKey;
+		this.settings = {
+			...OrderTracker.defaults,
+			...(options || {})
+		};
+	}
+
+	get orderIds(): number[] {
+		return Array.from(this.tracked.keys());
+	}
+
+	/**
+	 * Starts following an order until it reaches a final status.
+	 *
+	 * `since` is when the order was placed (ie. `placedTime`), it bounds the `listOrders` date range and defaults to today.
+	 */
+	track(orderId: number, since: Date | number = Date.now()): this {
+		return this.follow(orderId, since, false);
+	}
+
+	untrack(orderId: number): this {
+		this.tracked.delete(orderId);
+
+		if(this.tracked.size === 0 && this.timer){
+			clearTimeout(this.timer);
+
+			this.timer = undefined;
+		}
+
+		return this;
+	}
+
+	/**
+	 * Last known state of a tracked order.
+	 */
+	getState(orderId: number): OrderState | undefined {
+		const tracked = this.tracked.get(orderId);
+
+		return tracked ? tracked.state : undefined;
+	}
+
+	/**
+	 * Stops tracking every order, pending waits reject with an `ETradeAbortError`.
+	 */
+	stop(): this {
+		this.orderIds.forEach((orderId) => {
+			this.untrack(orderId);
+		});
+
+		this.emit('end');
+
+		return this;
+	}
+
+	/**
+	 * Tracks the order and resolves once it's executed.
+	 *
+	 * Rejects if the order reaches any other final status, with an `ETradeOrderRejectedError` if it was rejected, or after `timeout` with an `ETradeTimeoutError`.
+	 */
+	waitForFill(orderId: number, options?: WaitOptions): Promise<OrderState> {
+		return this.waitFor(orderId, FILLED_STATUSES, options);
+	}
+
+	/**
+	 * Tracks the order and resolves once it's cancelled, rejecting if it reaches any other final status.
+	 */
+	waitForCancel(orderId: number, options?: WaitOptions): Promise<OrderState> {
+		return this.waitFor(orderId, [ 'CANCELLED' ], options);
+	}
+
+	private follow(orderId: number, since: Date | number, wait: boolean): this {
+		const tracked = this.tracked.get(orderId);
+
+		if(!tracked){
+			this.tracked.set(orderId, {
+				since: getStartOfDay(new Date(since).getTime()),
+				waiters: 0,
+				waitOnly: wait
+			});
+
+			debugTracker('tracking', orderId);
+		}else
+		if(!wait){
+			tracked.waitOnly = false;
+		}
+
+		if(wait){
+			++this.tracked.get(orderId)!.waiters;
+		}
+
+		if(!this.timer && !this.polling){
+			this.schedule(0);
+		}else{
+			this.refTimer();
+		}
+
+		return this;
+	}
+
+	private waitFor(orderId: number, statuses: orderStatus[], { timeout = 0, since }: WaitOptions = {}): Promise<OrderState> {
+		return new Promise((resolve, reject) => {
+			let timer: NodeJS.Timeout | undefined;
+			let waiting = false;
+
+			const cleanup = () => {
+				this.removeListener('status', onStatus);
+				this.removeListener('end', onEnd);
+
+				if(timer){
+					clearTimeout(timer);
+				}
+
+				const tracked = this.tracked.get(orderId);
+
+				if(waiting && tracked){
+					--tracked.waiters;
+				}
+
+				waiting = false;
+
+				// Stop polling for an order only this wait was interested in, ie. one that never showed up
+				if(tracked && tracked.waitOnly && tracked.waiters === 0){
+					this.untrack(orderId);
+				}
+
+				this.refTimer();
+			};
+
+			const check = (state: OrderState): boolean => {
+				if(statuses.includes(state.status)){
+					cleanup();
+					resolve(state);
+
+					return true;
+				}
+
+				if(FINAL_STATUSES.includes(state.status)){
+					const ErrorClass = state.status === 'REJECTED' ? ETradeOrderRejectedError : ETradeError;
+
+					cleanup();
+					reject(new ErrorClass(`Order ${orderId} is ${state.status}`, {
+						code: state.status,
+						raw: state.order
+					}));
+
+					return true;
+				}
+
+				return false;
+			};
+
+			const onStatus = (event: OrderStatusEvent) => {
+				if(event.orderId === orderId){
+					check(event.state);
+				}
+			};
+
+			const onEnd = () => {
+				cleanup();
+				reject(new ETradeAbortError(`Stopped tracking order ${orderId}`));
+			};
+
+			const current = this.getState(orderId);
+
+			if(current && check(current)){
+				return;
+			}
+
+			this.on('status', onStatus);
+			this.on('end', onEnd);
+
+			if(timeout > 0){
+				timer = setTimeout(() => {
+					cleanup();
+					reject(new ETradeTimeoutError(`Order ${orderId} did not reach ${statuses.join(' or ')} within ${timeout}ms`));
+				}, timeout);
+			}
+
+			this.follow(orderId, since === undefined ? Date.now() : since, true);
+
+			waiting = true;
+		});
+	}
+
+	private schedule(delay: number): void {
+		if(this.timer){
+			clearTimeout(this.timer);
+		}
+
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+
+			this.poll();
+		}, delay);
+
+		this.refTimer();
+	}
+
+	/**
+	 * Only pending waits keep the process alive, tracking alone doesn't.
+	 */
+	private refTimer(): void {
+		if(!this.timer){
+			return;
+		}
+
+		const waiting = Array.from(this.tracked.values()).some(({ waiters }) => {
+			return waiters > 0;
+		});
+
+		if(waiting){
+			this.timer.ref();
+		}else{
+			this.timer.unref();
+		}
+	}
+
+	private async poll(): Promise<void> {
+		if(this.tracked.size === 0){
+			return;
+		}
+
+		this.polling = true;
+
+		try {
+			const orders = await this.fetch();
+
+			this.failures = 0;
+
+			orders.forEach((order) => {
+				this.update(order);
+			});
+		}catch(err){
+			++this.failures;
+
+			debugTracker('poll failed', err);
+
+			if(this.listenerCount('error') > 0){
+				this.emit('error', err);
+			}
+		}finally{
+			this.polling = false;
+		}
+
+		if(this.tracked.size > 0){
+			this.schedule(this.failures > 0 ? Math.min(this.settings.maxBackoff, this.settings.interval * Math.pow(2, this.failures)) : this.settings.interval);
+		}
+	}
+
+	/**
+	 * Lists the tracked orders, only asking for `OPEN` orders while every tracked order is known to be open.
+	 */
+	private async fetch(): Promise<Order[]> {
+		const tracked = Array.from(this.tracked.values());
+
+		const request: ListOrdersRequest = {
+			accountIdKey: this.accountIdKey,
+			fromDate: formatEasternDate(Math.min(...tracked.map(({ since }) => {
+				return since;
+			}))),
+			toDate: formatEasternDate(Date.now())
+		};
+
+		const allOpen = tracked.every(({ state }) => {
+			return !!state && state.status === 'OPEN';
+		});
+
+		let orders = await this.list(allOpen ? {
+			...request,
+			status: 'OPEN'
+		} : request);
+
+		// Some orders left OPEN, look them up again without the status filter
+		if(allOpen && orders.length < this.tracked.size){
+			orders = await this.list(request);
+		}
+
+		return orders;
+	}
+
+	private async list(request: ListOrdersRequest): Promise<Order[]> {
+		const found: Order[] = [];
+
+		let marker: string | undefined;
+
+		do {
+			const results = await this.eTrade.listOrders({
+				...request,
+				marker: marker
+			}, {
+				priority: this.settings.priority
+			});
+
+			((results && results.Order) || []).forEach((order) => {
+				if(this.tracked.has(order.orderId)){
+					found.push(order);
+				}
+			});
+
+			marker = results && results.next ? results.marker : undefined;
+		}while(marker && found.length < this.tracked.size);
+
+		return found;
+	}
+
+	private update(order: Order): void {
+		const tracked = this.tracked.get(order.orderId);
+		const detail = (order.OrderDetail || [])[0];
+
+		if(!tracked || !detail){
+			return;
+		}
+
+		const previous = tracked.state;
+		const legs = (detail.Instrument || []).map((instrument: Partial<Instrument>) => {
+			return {
+				symbol: instrument.Product ? instrument.Product.symbol || '' : '',
+				orderAction: instrument.orderAction,
+				orderedQuantity: +(instrument.orderedQuantity || instrument.quantity || 0),
+				filledQuantity: +(instrument.filledQuantity || 0),
+				averageExecutionPrice: +(instrument.averageExecutionPrice || 0)
+			};
+		});
+
+		const state: OrderState = {
+			orderId: order.orderId,
+			status: detail.status,
+			order: order,
+			legs: legs,
+			updatedAt: Date.now()
+		};
+
+		tracked.state = state;
+
+		legs.forEach((leg, i) => {
+			const before = previous ? previous.legs[i] : undefined;
+			const filledBefore = before ? before.filledQuantity : 0;
+
+			if(leg.filledQuantity <= filledBefore){
+				return;
+			}
+
+			const quantity = leg.filledQuantity - filledBefore;
+			const costBefore = before ? before.averageExecutionPrice * before.filledQuantity : 0;
+
+			const fill: OrderFillEvent = {
+				orderId: order.orderId,
+				symbol: leg.symbol,
+				orderAction: leg.orderAction,
+				quantity: quantity,
+				price: (leg.averageExecutionPrice * leg.filledQuantity - costBefore) / quantity,
+				filledQuantity: leg.filledQuantity,
+				orderedQuantity: leg.orderedQuantity,
+				averageExecutionPrice: leg.averageExecutionPrice
+			};
+
+			debugTracker('fill', fill);
+
+			this.emit('fill', fill);
+		});
+
+		if(!previous || previous.status !== state.status){
+			debugTracker('status', order.orderId, previous ? previous.status : undefined, state.status);
+
+			this.emit('status', {
+				orderId: order.orderId,
+				previous: previous ? previous.status : undefined,
+				status: state.status,
+				state: state
+			});
+		}
+
+		if(FINAL_STATUSES.includes(state.status)){
+			this.untrack(order.orderId);
+		}
+	}
+
+}
+
+/* Interfaces / Types */
+export interface OrderTrackerOptions {
+	/**
+	 * Milliseconds between `listOrders` polls.
+	 */
+	interval: number;
+	/**
+	 * Queue priority of the polling requests, below other requests by default.
+	 */
+	priority: number;
+	/**
+	 * Upper bound, in milliseconds, of the delay between polls after consecutive failures.
+	 */
+	maxBackoff: number;
+}
+
+export interface WaitOptions {
+	/**
+	 * Milliseconds to wait before rejecting, 0 to wait indefinitely.
+	 */
+	timeout?: number;
+	/**
+	 * When the order was placed, see `OrderTracker#track`.
+	 */
+	since?: Date | number;
+}
+
+export interface OrderLegState {
+	symbol: string;
+	orderAction?: Instrument['orderAction'];
+	orderedQuantity: number;
+	filledQuantity: number;
+	averageExecutionPrice: number;
+}
+
+export interface OrderState {
+	orderId: number;
+	status: orderStatus;
+	order: Order;
+	legs: OrderLegState[];
+	/**
+	 * Epoch milliseconds of the poll that produced this state.
+	 */
+	updatedAt: number;
+}
+
+export interface OrderStatusEvent {
+	orderId: number;
+	/**
+	 * Unset the first time the order is seen.
+	 */
+	previous?: orderStatus;
+	status: orderStatus;
+	state: OrderState;
+}
+
+export interface OrderFillEvent extends OrderLegState {
+	orderId: number;
+	/**
+	 * Quantity filled since the last poll.
+	 */
+	quantity: number;
+	/**
+	 * Average price of the quantity filled since the last poll.
+	 */
+	price: number;
+}
+
+interface TrackedOrder {
+	since: number;
+	state?: OrderState;
+	/**
+	 * Pending `waitFor` calls.
+	 */
+	waiters: number;
+	/**
+	 * Tracked by `waitFor` only, not `track`.
+	 */
+	waitOnly: boolean;
+}
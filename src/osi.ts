@@ -0,0 +1,226 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	OptionDetails,
+	Product
+} from './e-trade-api';
+import {
+	fromEasternTime,
+	getEasternTime
+} from './market-time';
+
+/* Globals */
+// Root symbol, optionally padded to six characters with spaces (OCC) or dashes (E-Trade's osiKey)
+const OSI_PATTERN = /^([A-Z0-9.]{1,6}?)[\s-]*(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+// ie. "IBM Jun 17 '22 $125 Call"
+const DISPLAY_PATTERN = /^(\S+)\s+([A-Z]{3})\s+(\d{1,2})\s+'(\d{2})\s+\$([\d,]+(?:\.\d+)?)\s+(CALL|PUT)$/;
+
+// ie. "IBM:2022:6:17:CALL:125", as accepted by getQuotes
+const QUOTE_PATTERN = /^([A-Z0-9.]+):(\d{2,4}):(\d{1,2}):(\d{1,2}):(CALL|PUT):(\d+(?:\.\d+)?)$/;
+
+const MONTHS = [ 'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec' ];
+
+/* Helpers */
+const pad = (value: number, length: number): string => {
+	return ('' + value).padStart(length, '0');
+};
+
+const createContract = (underlying: string, year: number, month: number, day: number, callPut: callPut, strike: number): OptionContract | undefined => {
+	if(month < 1 || month > 12 || day < 1 || day > 31 || !isFinite(strike)){
+		return undefined;
+	}
+
+	return {
+		underlying: underlying,
+		expiry: new Date(fromEasternTime(year, month, day)),
+		callPut: callPut,
+		strike: strike
+	};
+};
+
+/* Functions */
+/**
+ * Parses an OCC/OSI option symbol, space padded (`AAPL  220121C00150000`), dash padded like E-Trade's `osiKey` (`AAPL--220121C00150000`) or unpadded.
+ */
+export const parseOsiSymbol = (symbol: string): OptionContract | undefined => {
+	const match = OSI_PATTERN.exec(symbol.trim().toUpperCase());
+
+	if(!match){
+		return undefined;
+	}
+
+	const [ , underlying, year, month, day, callPut, strike ] = match;
+
+	return createContract(underlying, 2000 + +year, +month, +day, callPut === 'C' ? 'CALL' : 'PUT', +strike / 1000);
+};
+
+/**
+ * Formats an option contract as an OCC/OSI symbol, with the root padded to six characters using `padding`.
+ */
+export const formatOsiSymbol = ({ underlying, expiry, callPut, strike }: OptionContract, padding: string = ' '): string => {
+	const eastern = getEasternTime(expiry);
+
+	return [
+		padding ? underlying.toUpperCase().padEnd(6, padding) : underlying.toUpperCase(),
+		pad(eastern.year % 100, 2),
+		pad(eastern.month, 2),
+		pad(eastern.day, 2),
+		callPut === 'CALL' ? 'C' : 'P',
+		pad(Math.round(strike * 1000), 8)
+	].join('');
+};
+
+/**
+ * Formats an option contract the way E-Trade formats `osiKey`.
+ */
+export const formatOsiKey = (contract: OptionContract): string => {
+	return formatOsiSymbol(contract, '-');
+};
+
+/**
+ * Parses E-Trade's display symbol for an option, ie. `IBM Jun 17 '22 $125 Call`.
+ */
+export const parseOptionDisplaySymbol = (symbol: string): OptionContract | undefined => {
+	const match = DISPLAY_PATTERN.exec(symbol.trim().toUpperCase());
+
+	if(!match){
+		return undefined;
+	}
+
+	const [ , underlying, month, day, year, strike, callPut ] = match;
+
+	const monthIndex = MONTHS.findIndex((name) => {
+		return name.toUpperCase() === month;
+	});
+
+	return createContract(underlying, 2000 + +year, monthIndex + 1, +day, callPut as callPut, +strike.replace(/,/g, ''));
+};
+
+export const formatOptionDisplaySymbol = ({ underlying, expiry, callPut, strike }: OptionContract): string => {
+	const eastern = getEasternTime(expiry);
+
+	return [
+		underlying.toUpperCase(),
+		MONTHS[eastern.month - 1],
+		pad(eastern.day, 2),
+		`'${pad(eastern.year % 100, 2)}`,
+		`$${strike}`,
+		callPut === 'CALL' ? 'Call' : 'Put'
+	].join(' ');
+};
+
+/**
+ * Parses either an OCC/OSI symbol or an E-Trade display symbol.
+ */
+export const parseOptionSymbol = (symbol: string): OptionContract | undefined => {
+	return parseOsiSymbol(symbol) || parseOptionDisplaySymbol(symbol);
+};
+
+/**
+ * Reads the option contract of a symbol, a `getOptionChains` entry (from its `osiKey` or `displaySymbol`) or passes an `OptionContract` through.
+ */
+export const toOptionContract = (option: string | OptionDetails | OptionContract): OptionContract | undefined => {
+	if(typeof(option) === 'string'){
+		return parseOptionSymbol(option);
+	}
+
+	if((option as OptionContract).underlying && (option as OptionContract).expiry){
+		return option as OptionContract;
+	}
+
+	const details = option as OptionDetails;
+
+	return (details.osiKey && parseOsiSymbol(details.osiKey)) || (details.displaySymbol && parseOptionDisplaySymbol(details.displaySymbol)) || undefined;
+};
+
+/**
+ * Reads the option contract described by a `Product`, ie. from an order `Instrument` or a quote.
+ */
+export const fromOptionProduct = (product: Partial<Product>): OptionContract | undefined => {
+	if(!product.symbol || !product.callPut || !product.expiryYear || !product.expiryMonth || !product.expiryDay || product.strikePrice === undefined){
+		return undefined;
+	}
+
+	const callPut = product.callPut.toUpperCase();
+
+	if(callPut !== 'CALL' && callPut !== 'PUT'){
+		return undefined;
+	}
+
+	// Product years are sometimes two digits
+	const year = product.expiryYear < 100 ? 2000 + product.expiryYear : product.expiryYear;
+
+	return createContract(product.symbol.toUpperCase(), year, product.expiryMonth, product.expiryDay, callPut, +product.strikePrice);
+};
+
+/**
+ * Builds the `Product` of an `OPTN` order `Instrument`.
+ */
+export const toOptionProduct = ({ underlying, expiry, callPut, strike }: OptionContract): Partial<Product> => {
+	const eastern = getEasternTime(expiry);
+
+	return {
+		symbol: underlying.toUpperCase(),
+		securityType: 'OPTN',
+		callPut: callPut,
+		expiryYear: eastern.year,
+		expiryMonth: eastern.month,
+		expiryDay: eastern.day,
+		strikePrice: strike
+	};
+};
+
+/**
+ * Symbol of a product as accepted by `getQuotes`: the symbol itself, or `underlying:year:month:day:CALL|PUT:strike` for options.
+ */
+export const formatQuoteSymbol = (product: Partial<Product>): string => {
+	if(product.securityType !== 'OPTN' && !product.callPut){
+		return ('' + product.symbol).toUpperCase();
+	}
+
+	return [
+		('' + product.symbol).toUpperCase(),
+		product.expiryYear,
+		product.expiryMonth,
+		product.expiryDay,
+		('' + product.callPut).toUpperCase(),
+		+(product.strikePrice as number)
+	].join(':');
+};
+
+/**
+ * Parses the option symbol format accepted by `getQuotes`, see `formatQuoteSymbol`.
+ */
+export const parseQuoteSymbol = (symbol: string): OptionContract | undefined => {
+	const match = QUOTE_PATTERN.exec(symbol.trim().toUpperCase());
+
+	if(!match){
+		return undefined;
+	}
+
+	const [ , underlying, year, month, day, callPut, strike ] = match;
+
+	return fromOptionProduct({
+		symbol: underlying,
+		callPut: callPut as callPut,
+		expiryYear: +year,
+		expiryMonth: +month,
+		expiryDay: +day,
+		strikePrice: +strike
+	});
+};
+
+/* Interfaces / Types */
+export type callPut = 'CALL' | 'PUT';
+
+export interface OptionContract {
+	underlying: string;
+	/**
+	 * Midnight US Eastern of the expiration date.
+	 */
+	expiry: Date;
+	callPut: callPut;
+	strike: number;
+}
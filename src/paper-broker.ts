@@ -0,0 +1,1499 @@
+'use strict';
+
+/* Dependencies */
+import { debug } from 'debug';
+import type { AxiosRequestConfig } from 'axios';
+import type {
+	CancelOrderResponse,
+	CompleteView,
+	Disclosure,
+	ETrade,
+	ETradeOperation,
+	FundamentalView,
+	GetAccountBalancesResponse,
+	Instrument,
+	ListOrdersRequest,
+	ListOrdersResponse,
+	Messages,
+	OptionsWatchView,
+	Order,
+	OrderDetail,
+	PerformanceView,
+	PlaceOrderResponse,
+	Portfolio,
+	PortfolioMargin,
+	Position,
+	PositionLot,
+	PreviewId,
+	PreviewOrderRequest,
+	PreviewOrderResponse,
+	Product,
+	QuickView,
+	ViewLotsDetailsResponse,
+	messageType,
+	orderAction,
+	orderPriceType,
+	orderStatus,
+	orderTerm,
+	orderType
+} from './e-trade-api';
+import {
+	ETradeNotFoundError,
+	ETradeOrderRejectedError,
+	ETradeValidationError
+} from './errors';
+import {
+	formatEasternDate,
+	fromEasternTime,
+	getNextEasternMidnight
+} from './market-time';
+import {
+	formatOsiKey,
+	formatQuoteSymbol,
+	fromOptionProduct
+} from './osi';
+
+/* Debug */
+const debugPaper = debug('e-trade:paper');
+
+/* Globals */
+const OPTION_MULTIPLIER = 100;
+const DEFAULT_ORDER_COUNT = 25;
+
+const PRICE_TYPES: orderPriceType[] = [ 'MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT' ];
+const ORDER_TERMS: orderTerm[] = [ 'GOOD_FOR_DAY', 'GOOD_UNTIL_CANCEL', 'GOOD_TILL_DATE', 'IMMEDIATE_OR_CANCEL', 'FILL_OR_KILL' ];
+const OPENING_ACTIONS: orderAction[] = [ 'BUY', 'BUY_OPEN', 'SELL_SHORT', 'SELL_OPEN' ];
+const CLOSING_ACTIONS: orderAction[] = [ 'SELL', 'SELL_CLOSE', 'BUY_TO_COVER', 'BUY_CLOSE' ];
+
+/* Helpers */
+const isBuy = (orderAction: orderAction | undefined): boolean => {
+	return /^BUY/.test(orderAction || '');
+};
+
+const getMultiplier = (product: Partial<Product>): number => {
+	return product.securityType === 'OPTN' ? OPTION_MULTIPLIER : 1;
+};
+
+/**
+ * MMDDYYYY to YYYYMMDD, so dates compare as strings.
+ */
+const toSortableDate = (date: string): string => {
+	return date.slice(4, 8) + date.slice(0, 4);
+};
+
+const round = (value: number): number => {
+	return Math.round(value * 100) / 100;
+};
+
+const createMessages = (type: messageType, descriptions: string[]): Messages => {
+	return {
+		Message: descriptions.map((description) => {
+			return {
+				description: description,
+				code: 0,
+				type: type
+			};
+		})
+	};
+};
+
+const reject = (errors: string[]): never => {
+	throw new ETradeOrderRejectedError(errors.join('; '), {
+		messages: createMessages('ERROR', errors).Message
+	});
+};
+
+const createPortfolioMargin = (): PortfolioMargin => {
+	return {
+		dtCashOpenOrderReserve: 0,
+		dtMarginOpenOrderReserve: 0,
+		liquidatingEquity: 0,
+		houseExcessEquity: 0,
+		totalHouseRequirement: 0,
+		excessEquityMinusRequirement: 0,
+		totalMarginRqmts: 0,
+		availExcessEquity: 0,
+		excessEquity: 0,
+		openOrderReserve: 0,
+		fundsOnHold: 0
+	};
+};
+
+const createDisclosure = (): Disclosure => {
+	return {
+		ehDisclosureFlag: false,
+		ahDisclosureFlag: false,
+		conditionalDisclosureFlag: false,
+		aoDisclosureFlag: false,
+		mfFLConsent: false,
+		mfEOConsent: false
+	};
+};
+
+const toProduct = (product: Partial<Product>): Product => {
+	return {
+		symbol: ('' + (product.symbol || '')).toUpperCase(),
+		securityType: product.securityType || 'EQ',
+		securitySubType: product.securitySubType || '',
+		callPut: product.callPut || '',
+		expiryYear: product.expiryYear || 0,
+		expiryMonth: product.expiryMonth || 0,
+		expiryDay: product.expiryDay || 0,
+		strikePrice: product.strikePrice || 0,
+		expiryType: product.expiryType || ''
+	};
+};
+
+const getOsiKey = (product: Partial<Product>): string => {
+	const contract = product.securityType === 'OPTN' ? fromOptionProduct(product) : undefined;
+
+	return contract ? formatOsiKey(contract) : '';
+};
+
+/**
+ * The simulated quote of a position in every portfolio `view`, fields the simulation doesn't track are zero.
+ */
+const createPositionViews = ({ price, quote, description, time, marketValue, totalGain, totalGainPct }: PositionViewValues): PositionViews => {
+	const bid = quote && quote.bid ? quote.bid : 0;
+	const ask = quote && quote.ask ? quote.ask : 0;
+
+	const Quick: QuickView = {
+		lastTrade: price,
+		lastTradeTime: time,
+		change: 0,
+		changePct: 0,
+		volume: 0,
+		quoteStatus: 'REALTIME',
+		sevenDayCurrentYield: 0,
+		annualTotalReturn: 0,
+		weightedAverageMaturity: 0
+	};
+
+	const Performance: PerformanceView = {
+		change: 0,
+		changePct: 0,
+		lastTrade: price,
+		daysGain: 0,
+		totalGain: totalGain,
+		totalGainPct: totalGainPct,
+		marketValue: marketValue,
+		quoteStatus: 'REALTIME',
+		lastTradeTime: time
+	};
+
+	const Fundamental: FundamentalView = {
+		lastTrade: price,
+		lastTradeTime: time,
+		change: 0,
+		changePct: 0,
+		peRatio: 0,
+		eps: 0,
+		dividend: 0,
+		divYield: 0,
+		marketCap: 0,
+		week52Range: '',
+		quoteStatus: 'REALTIME'
+	};
+
+	const OptionsWatch: OptionsWatchView = {
+		baseSymbolAndPrice: '',
+		premium: 0,
+		lastTrade: price,
+		bid: bid,
+		ask: ask,
+		quoteStatus: 'REALTIME',
+		lastTradeTime: time
+	};
+
+	const Complete: CompleteView = {
+		priceAdjustedFlag: false,
+		price: price,
+		adjPrice: 0,
+		change: 0,
+		changePct: 0,
+		prevClose: 0,
+		adjPrevClose: 0,
+		volume: 0,
+		lastTrade: price,
+		lastTradeTime: time,
+		adjLastTrade: 0,
+		symbolDescription: description,
+		perform1Month: 0,
+		perform3Month: 0,
+		perform6Month: 0,
+		perform12Month: 0,
+		prevDayVolume: 0,
+		tenDayVolume: 0,
+		beta: 0,
+		sv10DaysAvg: 0,
+		sv20DaysAvg: 0,
+		sv1MonAvg: 0,
+		sv2MonAvg: 0,
+		sv3MonAvg: 0,
+		sv4MonAvg: 0,
+		sv6MonAvg: 0,
+		week52High: 0,
+		week52Low: 0,
+		week52Range: '',
+		marketCap: 0,
+		daysRange: '',
+		delta52WkHigh: 0,
+		delta52WkLow: 0,
+		currency: 'USD',
+		exchange: '',
+		marginable: false,
+		bid: bid,
+		ask: ask,
+		bidAskSpread: bid && ask ? round(ask - bid) : 0,
+		bidSize: 0,
+		askSize: 0,
+		open: 0,
+		delta: 0,
+		gamma: 0,
+		ivPct: 0,
+		rho: 0,
+		theta: 0,
+		vega: 0,
+		premium: 0,
+		daysToExpiration: 0,
+		intrinsicValue: 0,
+		openInterest: 0,
+		optionsAdjustedFlag: false,
+		deliverablesStr: '',
+		optionMultiplier: 0,
+		baseSymbolAndPrice: '',
+		estEarnings: 0,
+		eps: 0,
+		peRatio: 0,
+		annualDividend: 0,
+		dividend: 0,
+		divYield: 0,
+		divPayDate: 0,
+		exDividendDate: 0,
+		cusip: '',
+		quoteStatus: 'REALTIME'
+	};
+
+	return {
+		Quick: Quick,
+		Performance: Performance,
+		Fundamental: Fundamental,
+		OptionsWatch: OptionsWatch,
+		Complete: Complete
+	};
+};
+
+/* Main Class */
+export class PaperBroker {
+
+	/**
+	 * Operations served by the broker in `paper` mode, every other operation uses the production API.
+	 */
+	static operations: ETradeOperation[] = [ 'previewOrder', 'placeOrder', 'cancelOrder', 'changePreviewedOrder', 'placeChangedOrder', 'listOrders', 'viewPortfolio', 'viewLotsDetails', 'getAccountBalances' ];
+
+	static defaults: PaperOptions = {
+		cash: 100000,
+		commission: 0,
+		priceFeed: undefined
+	};
+
+	public settings: PaperOptions;
+
+	private eTrade: ETrade;
+	private accounts: Map<string, PaperAccount> = new Map();
+	private previews: Map<number, PaperPreview> = new Map();
+	private ids = {
+		order: 0,
+		preview: 0,
+		position: 0,
+		lot: 0
+	};
+
+	constructor(eTrade: ETrade, options?: Partial<PaperOptions>){
+		this.eTrade = eTrade;
+		this.settings = {
+			...PaperBroker.defaults,
+			...(options || {})
+		};
+	}
+
+	/**
+	 * Cash balance of a simulated account.
+	 */
+	getCash(accountIdKey: string): number {
+		return this.getAccount(accountIdKey).cash;
+	}
+
+	/**
+	 * Discards a simulated account, or every account, starting over with `cash`.
+	 */
+	reset(accountIdKey?: string): void {
+		if(accountIdKey){
+			this.accounts.delete(accountIdKey);
+		}else{
+			this.accounts.clear();
+			this.previews.clear();
+		}
+	}
+
+	/**
+	 * Expires and fills open orders against the latest quotes. Runs before orders, positions and balances are read.
+	 *
+	 * Without a `priceFeed`, quotes are requested with `client`'s `getQuotes`, the client the broker was created for by default. Quote failures are thrown.
+	 */
+	async sweep(accountIdKey?: string, client: ETrade = this.eTrade): Promise<void> {
+		const accounts = accountIdKey ? [ this.getAccount(accountIdKey) ] : Array.from(this.accounts.values());
+		const now = Date.now();
+
+		const open = accounts.reduce((orders, account) => {
+			account.orders.forEach((order) => {
+				if(order.status !== 'OPEN'){
+					return;
+				}
+
+				if(order.expiresAt !== undefined && now >= order.expiresAt){
+					this.close(order, 'EXPIRED');
+
+					return;
+				}
+
+				orders.push({
+					account: account,
+					order: order
+				});
+			});
+
+			return orders;
+		}, [] as { account: PaperAccount; order: PaperOrder }[]);
+
+		if(open.length === 0){
+			return;
+		}
+
+		const quotes = await this.getQuotes(open.map(({ order }) => {
+			return order.leg.Product;
+		}), client);
+
+		open.forEach(({ account, order }) => {
+			this.fill(account, order, quotes[formatQuoteSymbol(order.leg.Product)]);
+		});
+	}
+
+	/**
+	 * Serves an API operation, returning the same response body E-Trade would. `client` is the client making the request, it requests any quotes needed.
+	 */
+	async handle(operation: ETradeOperation, { url = '', data }: AxiosRequestConfig, client: ETrade = this.eTrade): Promise<PaperResponse> {
+		const match = /^accounts\/([^/]+)\/(?:orders\/(\d+)\/|portfolio\/(\d+))?/.exec(url);
+
+		if(!match){
+			throw new ETradeNotFoundError(`Paper trading can't serve ${url}`, {
+				code: 404
+			});
+		}
+
+		const [ , accountIdKey, orderId, positionId ] = match;
+		const body: PaperRequestBody = data || {};
+
+		debugPaper(operation, accountIdKey, body);
+
+		switch(operation){
+			case 'previewOrder':
+				return {
+					PreviewOrderResponse: await this.preview(accountIdKey, body.PreviewOrderRequest, client)
+				};
+			case 'changePreviewedOrder':
+				return {
+					PreviewOrderResponse: await this.preview(accountIdKey, body.PreviewOrderRequest, client, +orderId)
+				};
+			case 'placeOrder':
+				return {
+					PlaceOrderResponse: await this.place(accountIdKey, body.PlaceOrderRequest, client)
+				};
+			case 'placeChangedOrder':
+				return {
+					PlaceOrderResponse: await this.place(accountIdKey, body.PlaceOrderRequest, client, +orderId)
+				};
+			case 'cancelOrder':
+				return {
+					CancelOrderResponse: this.cancel(accountIdKey, +(body.CancelOrderRequest ? body.CancelOrderRequest.orderId : 0))
+				};
+			case 'listOrders':
+				return {
+					OrdersResponse: await this.listOrders(accountIdKey, body, client)
+				};
+			case 'viewPortfolio':
+				return {
+					PortfolioResponse: {
+						AccountPortfolio: [ await this.viewPortfolio(accountIdKey, !!body.lotsRequired, client) ]
+					}
+				};
+			case 'viewLotsDetails':
+				return {
+					PositionLotsResponse: await this.viewLotsDetails(accountIdKey, +positionId, client)
+				};
+			case 'getAccountBalances':
+				return {
+					BalanceResponse: await this.getAccountBalances(accountIdKey, client)
+				};
+			default:
+				throw new ETradeNotFoundError(`Paper trading doesn't support ${operation}`, {
+					code: 404
+				});
+		}
+	}
+
+	/**
+	 * Latest quotes of the products keyed by `getQuotes` symbol, from `priceFeed` or `client`'s production `getQuotes`.
+	 */
+	async getQuotes(products: Partial<Product>[], client: ETrade = this.eTrade): Promise<Record<string, PaperQuote>> {
+		const symbols = products.map(formatQuoteSymbol).filter((symbol, i, symbols) => {
+			return symbols.indexOf(symbol) === i;
+		});
+
+		if(symbols.length === 0){
+			return {};
+		}
+
+		if(this.settings.priceFeed){
+			return this.settings.priceFeed(symbols);
+		}
+
+		const { QuoteData } = await client.getQuotes({
+			symbols: symbols
+		});
+
+		const quotes: Record<string, PaperQuote> = {};
+
+		(QuoteData || []).forEach((quote) => {
+			if(quote.Product && quote.All){
+				quotes[formatQuoteSymbol(quote.Product)] = {
+					bid: +quote.All.bid,
+					ask: +quote.All.ask,
+					last: +quote.All.lastTrade
+				};
+			}
+		});
+
+		return quotes;
+	}
+
+	private getAccount(accountIdKey: string): PaperAccount {
+		let account = this.accounts.get(accountIdKey);
+
+		if(!account){
+			account = {
+				accountIdKey: accountIdKey,
+				cash: this.settings.cash,
+				positions: [],
+				orders: []
+			};
+
+			this.accounts.set(accountIdKey, account);
+		}
+
+		return account;
+	}
+
+	private getPosition(account: PaperAccount, product: Partial<Product>): PaperPosition | undefined {
+		const symbol = formatQuoteSymbol(product);
+
+		return account.positions.find((position) => {
+			return formatQuoteSymbol(position.product) === symbol;
+		});
+	}
+
+	private getPositionQuantity(account: PaperAccount, product: Partial<Product>): number {
+		const position = this.getPosition(account, product);
+
+		return position ? position.lots.reduce((total, lot) => {
+			return total + lot.quantity;
+		}, 0) : 0;
+	}
+
+	/**
+	 * Cash held by open buy orders, at their limit or stop price.
+	 */
+	private getReservedCash(account: PaperAccount, excludeOrderId?: number): number {
+		return account.orders.reduce((total, order) => {
+			if(order.status !== 'OPEN' || order.orderId === excludeOrderId || !isBuy(order.leg.orderAction)){
+				return total;
+			}
+
+			const price = +(order.detail.limitPrice || order.detail.stopPrice || 0);
+
+			return total + price * order.leg.quantity * getMultiplier(order.leg.Product) + this.settings.commission;
+		}, 0);
+	}
+
+	/**
+	 * Returns every reason the order can't be accepted, given its estimated price.
+	 */
+	private validate(account: PaperAccount, request: PreviewOrderRequest, price: number | undefined, orderId?: number): string[] {
+		const errors: string[] = [];
+		const details = request.order || [];
+		const detail = details[0] || {};
+		const legs = detail.Instrument || [];
+		const leg = legs[0] || {};
+		const product = leg.Product || {};
+		const quantity = +(leg.quantity || 0);
+
+		if(details.length !== 1 || legs.length !== 1){
+			errors.push('Paper trading only supports single leg orders');
+		}
+
+		if(product.securityType !== 'EQ' && product.securityType !== 'OPTN'){
+			errors.push(`Paper trading doesn't support security type ${product.securityType}`);
+		}
+
+		if(!detail.priceType || !PRICE_TYPES.includes(detail.priceType)){
+			errors.push(`Paper trading doesn't support price type ${detail.priceType}`);
+		}
+
+		if(!detail.orderTerm || !ORDER_TERMS.includes(detail.orderTerm)){
+			errors.push(`Paper trading doesn't support order term ${detail.orderTerm}`);
+		}
+
+		if((detail.priceType === 'LIMIT' || detail.priceType === 'STOP_LIMIT') && !(+(detail.limitPrice || 0) > 0)){
+			errors.push(`${detail.priceType} orders require a positive limitPrice`);
+		}
+
+		if((detail.priceType === 'STOP' || detail.priceType === 'STOP_LIMIT') && !(+(detail.stopPrice || 0) > 0)){
+			errors.push(`${detail.priceType} orders require a positive stopPrice`);
+		}
+
+		if(!Number.isInteger(quantity) || quantity <= 0){
+			errors.push('Quantity must be a positive whole number');
+		}
+
+		if(!leg.orderAction){
+			errors.push('An orderAction is required');
+		}
+
+		if(errors.length > 0 || !leg.orderAction){
+			return errors;
+		}
+
+		const held = this.getPositionQuantity(account, product);
+		const direction = isBuy(leg.orderAction) ? 1 : -1;
+
+		if(CLOSING_ACTIONS.includes(leg.orderAction) && (held * direction >= 0 || Math.abs(held) < quantity)){
+			errors.push(`${leg.orderAction} of ${quantity} ${product.symbol} exceeds the ${Math.abs(held * direction < 0 ? held : 0)} held to close`);
+		}
+
+		if(OPENING_ACTIONS.includes(leg.orderAction) && held * direction < 0){
+			errors.push(`${leg.orderAction} can't open a position in ${product.symbol} against the existing ${held > 0 ? 'long' : 'short'} position, close it first`);
+		}
+
+		if(direction > 0 && price !== undefined){
+			const cost = price * quantity * getMultiplier(product) + this.settings.commission;
+			const available = account.cash - this.getReservedCash(account, orderId);
+
+			if(cost > available){
+				errors.push(`Order cost of ${round(cost)} exceeds the ${round(available)} of cash available`);
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Price the order is expected to execute at: its limit or stop price, or the current ask (buys) or bid (sells).
+	 */
+	private async estimatePrice(request: PreviewOrderRequest, client: ETrade): Promise<number | undefined> {
+		const detail = (request.order || [])[0] || {};
+		const leg = (detail.Instrument || [])[0];
+
+		if(+(detail.limitPrice || 0) > 0 && detail.priceType !== 'MARKET' && detail.priceType !== 'STOP'){
+			return +(detail.limitPrice || 0);
+		}
+
+		if(detail.priceType === 'STOP' && +(detail.stopPrice || 0) > 0){
+			return +(detail.stopPrice || 0);
+		}
+
+		if(!leg || !leg.Product){
+			return undefined;
+		}
+
+		const quote = (await this.getQuotes([ leg.Product ], client))[formatQuoteSymbol(leg.Product)];
+
+		if(!quote){
+			return undefined;
+		}
+
+		const price = (isBuy(leg.orderAction) ? quote.ask : quote.bid) || quote.last;
+
+		return price && price > 0 ? price : undefined;
+	}
+
+	private getOpenOrder(account: PaperAccount, orderId: number): PaperOrder {
+		const order = account.orders.find((order) => {
+			return order.orderId === orderId;
+		});
+
+		if(!order){
+			throw new ETradeNotFoundError(`Order ${orderId} not found`, {
+				code: 404
+			});
+		}
+
+		if(order.status !== 'OPEN'){
+			reject([ `Order ${orderId} is ${order.status}` ]);
+		}
+
+		return order;
+	}
+
+	private async preview(accountIdKey: string, body: PaperOrderBody | undefined, client: ETrade, orderId?: number): Promise<PreviewOrderResponse> {
+		const account = this.getAccount(accountIdKey);
+		const request = this.toRequest(accountIdKey, body);
+
+		if(orderId !== undefined){
+			this.getOpenOrder(account, orderId);
+		}
+
+		const price = await this.estimatePrice(request, client);
+		const errors = this.validate(account, request, price, orderId);
+
+		if(errors.length > 0){
+			reject(errors);
+		}
+
+		const detail = request.order[0];
+		const leg = (detail.Instrument || [])[0] || {};
+		const value = round((price || 0) * +(leg.quantity || 0) * getMultiplier(leg.Product || {}));
+		const previewId = ++this.ids.preview;
+		const previewTime = Date.now();
+
+		this.previews.set(previewId, {
+			accountIdKey: accountIdKey,
+			orderId: orderId
+		});
+
+		return {
+			previewTime: previewTime,
+			orderType: request.orderType,
+			messageList: createMessages('INFO', []),
+			totalOrderValue: value,
+			totalCommission: this.settings.commission,
+			orderId: orderId || 0,
+			Order: [ this.toOrderDetail(accountIdKey, detail, leg, {
+				orderType: request.orderType,
+				status: 'OPEN',
+				previewTime: previewTime,
+				placedTime: 0,
+				executedTime: 0,
+				value: value,
+				filledQuantity: 0,
+				averageExecutionPrice: 0
+			}) ],
+			dstFlag: false,
+			optionLevelCd: 0,
+			marginLevelCd: '',
+			isEmployee: false,
+			commissionMsg: '',
+			orderIds: orderId !== undefined ? [{
+				orderId: orderId,
+				cashMargin: 'CASH'
+			}] : [],
+			placedTime: 0,
+			accountId: accountIdKey,
+			portfolioMargin: createPortfolioMargin(),
+			disclosure: createDisclosure(),
+			PreviewIds: [{
+				previewId: previewId,
+				cashMargin: 'CASH'
+			}],
+			clientOrderId: '' + request.clientOrderId
+		};
+	}
+
+	private async place(accountIdKey: string, body: PaperOrderBody | undefined, client: ETrade, orderId?: number): Promise<PlaceOrderResponse> {
+		const account = this.getAccount(accountIdKey);
+		const previewIds = body && body.PreviewIds ? body.PreviewIds : [];
+		const previewId = previewIds[0] ? +previewIds[0].previewId : undefined;
+		const preview = previewId !== undefined ? this.previews.get(previewId) : undefined;
+
+		if(previewId === undefined || !preview || preview.accountIdKey !== accountIdKey || preview.orderId !== orderId){
+			throw new ETradeValidationError(`Unknown preview id ${previewId}`, {
+				code: 400
+			});
+		}
+
+		const request = this.toRequest(accountIdKey, body);
+		const previous = orderId !== undefined ? this.getOpenOrder(account, orderId) : undefined;
+		const errors = this.validate(account, request, await this.estimatePrice(request, client), orderId);
+
+		if(errors.length > 0){
+			reject(errors);
+		}
+
+		const detail = request.order[0];
+		const leg = (detail.Instrument || [])[0] || {};
+		// Quoted before anything changes, so a failed quote leaves no order behind
+		const quotes = await this.getQuotes([ leg.Product || {} ], client);
+		const placedTime = Date.now();
+
+		this.previews.delete(previewId);
+
+		// Validated above, every order has a product, action and quantity
+		const paperLeg = {
+			...leg,
+			Product: leg.Product || {},
+			orderAction: leg.orderAction || 'BUY',
+			quantity: +(leg.quantity || 0)
+		};
+
+		const placed: PaperOrder = previous || {
+			orderId: ++this.ids.order,
+			clientOrderId: '' + request.clientOrderId,
+			orderType: request.orderType,
+			placedTime: placedTime,
+			status: 'OPEN',
+			detail: detail,
+			leg: paperLeg,
+			triggered: false,
+			filledQuantity: 0,
+			averageExecutionPrice: 0
+		};
+
+		// Changes replace the order's terms and keep its id
+		placed.clientOrderId = '' + request.clientOrderId;
+		placed.detail = detail;
+		placed.leg = paperLeg;
+		placed.expiresAt = this.getExpiry(detail, placedTime);
+		placed.triggered = false;
+
+		if(!previous){
+			account.orders.push(placed);
+		}
+
+		this.fill(account, placed, quotes[formatQuoteSymbol(placed.leg.Product)]);
+
+		if(placed.status === 'OPEN' && (detail.orderTerm === 'IMMEDIATE_OR_CANCEL' || detail.orderTerm === 'FILL_OR_KILL')){
+			this.close(placed, 'CANCELLED');
+		}
+
+		const listed = this.toOrder(accountIdKey, placed);
+
+		return {
+			orderType: placed.orderType,
+			MessageList: createMessages('INFO', []),
+			totalOrderValue: listed.totalOrderValue,
+			totalCommission: this.settings.commission,
+			OrderIds: [{
+				orderId: placed.orderId
+			}],
+			Order: listed.OrderDetail,
+			dstFlag: false,
+			optionLevelCd: 0,
+			marginLevelCd: '',
+			isEmployee: false,
+			commissionMsg: '',
+			placedTime: placedTime,
+			accountId: accountIdKey,
+			PortfolioMargin: createPortfolioMargin(),
+			Disclosure: createDisclosure(),
+			clientOrderId: placed.clientOrderId
+		};
+	}
+
+	private cancel(accountIdKey: string, orderId: number): CancelOrderResponse {
+		const order = this.getOpenOrder(this.getAccount(accountIdKey), orderId);
+		const cancelTime = Date.now();
+
+		this.close(order, 'CANCELLED', cancelTime);
+
+		return {
+			accountId: accountIdKey,
+			orderId: orderId,
+			cancelTime: cancelTime,
+			Messages: createMessages('WARNING', [ 'Your request to cancel your order is being processed.' ])
+		};
+	}
+
+	private async listOrders(accountIdKey: string, { marker, count = DEFAULT_ORDER_COUNT, status, fromDate, toDate, symbol, securityType, marketSession }: Partial<ListOrdersRequest>, client: ETrade): Promise<ListOrdersResponse> {
+		await this.sweep(accountIdKey, client);
+
+		const symbols = symbol ? symbol.toUpperCase().split(',') : undefined;
+		const from = fromDate ? toSortableDate(fromDate) : undefined;
+		const to = toDate ? toSortableDate(toDate) : undefined;
+
+		const orders = this.getAccount(accountIdKey).orders.filter((order) => {
+			const placed = toSortableDate(formatEasternDate(order.placedTime));
+
+			return (!status || order.status === status)
+				&& (!symbols || symbols.includes(('' + order.leg.Product.symbol).toUpperCase()))
+				&& (!securityType || order.leg.Product.securityType === securityType)
+				&& (!marketSession || order.detail.marketSession === marketSession)
+				&& (!from || placed >= from)
+				&& (!to || placed <= to);
+		}).sort((a, b) => {
+			return b.orderId - a.orderId;
+		});
+
+		const start = marker ? +marker : 0;
+		const end = start + +count;
+
+		return {
+			marker: end < orders.length ? '' + end : '',
+			next: end < orders.length ? `accounts/${accountIdKey}/orders.json?marker=${end}` : '',
+			Order: orders.slice(start, end).map((order) => {
+				return this.toOrder(accountIdKey, order);
+			})
+		};
+	}
+
+	private async viewPortfolio(accountIdKey: string, lotsRequired: boolean, client: ETrade): Promise<Portfolio> {
+		await this.sweep(accountIdKey, client);
+
+		const account = this.getAccount(accountIdKey);
+		const quotes = await this.getQuotes(account.positions.map(({ product }) => {
+			return product;
+		}), client);
+
+		return {
+			accountId: accountIdKey,
+			next: '',
+			totalNoOfPages: 1,
+			nextPageNo: '',
+			Position: account.positions.map((position) => {
+				return this.toPosition(accountIdKey, position, quotes[formatQuoteSymbol(position.product)], lotsRequired);
+			})
+		};
+	}
+
+	private async viewLotsDetails(accountIdKey: string, positionId: number, client: ETrade): Promise<ViewLotsDetailsResponse> {
+		await this.sweep(accountIdKey, client);
+
+		const position = this.getAccount(accountIdKey).positions.find((position) => {
+			return position.positionId === positionId;
+		});
+
+		if(!position){
+			throw new ETradeNotFoundError(`Position ${positionId} not found`, {
+				code: 404
+			});
+		}
+
+		const quotes = await this.getQuotes([ position.product ], client);
+
+		return {
+			shortType: 0,
+			PositionLot: this.toPositionLots(position, this.getMarkPrice(position, quotes[formatQuoteSymbol(position.product)]))
+		};
+	}
+
+	private async getAccountBalances(accountIdKey: string, client: ETrade): Promise<GetAccountBalancesResponse> {
+		await this.sweep(accountIdKey, client);
+
+		const account = this.getAccount(accountIdKey);
+		const quotes = await this.getQuotes(account.positions.map(({ product }) => {
+			return product;
+		}), client);
+
+		let netMvLong = 0;
+		let netMvShort = 0;
+
+		account.positions.forEach((position) => {
+			const { marketValue } = this.toPosition(accountIdKey, position, quotes[formatQuoteSymbol(position.product)], false);
+
+			if(marketValue >= 0){
+				netMvLong += marketValue;
+			}else{
+				netMvShort += marketValue;
+			}
+		});
+
+		const cash = round(account.cash);
+		const reserved = round(this.getReservedCash(account));
+		const available = round(cash - reserved);
+
+		return {
+			accountId: accountIdKey,
+			institutionType: 'BROKERAGE',
+			asOfDate: Date.now(),
+			accountType: 'INDIVIDUAL',
+			optionLevel: '',
+			accountDescription: 'Paper Trading',
+			quoteMode: 0,
+			dayTraderStatus: '',
+			accountMode: 'CASH',
+			accountDesc: 'Paper Trading',
+			OpenCalls: [],
+			Cash: {
+				fundsForOpenOrdersCash: reserved,
+				moneyMktBalance: 0
+			},
+			Margin: {
+				dtCashOpenOrderReserve: 0,
+				dtMarginOpenOrderReserve: 0
+			},
+			Lending: {
+				currentBalance: 0,
+				creditLine: 0,
+				outstandingBalance: 0,
+				minPaymentDue: 0,
+				amountPastDue: 0,
+				availableCredit: 0,
+				ytdInterestPaid: 0,
+				lastYtdInterestPaid: 0,
+				paymentDueDate: 0,
+				lastPaymentReceivedDate: 0,
+				paymentReceivedMtd: 0
+			},
+			Computed: {
+				cashAvailableForInvestment: available,
+				cashAvailableForWithdrawal: available,
+				totalAvailableForWithdrawal: available,
+				netCash: cash,
+				cashBalance: cash,
+				settledCashForInvestment: available,
+				unSettledCashForInvestment: 0,
+				fundsWithheldFromPurchasePower: reserved,
+				fundsWithheldFromWithdrawal: reserved,
+				marginBuyingPower: 0,
+				cashBuyingPower: available,
+				dtMarginBuyingPower: 0,
+				dtCashBuyingPower: available,
+				marginBalance: 0,
+				shortAdjustBalance: 0,
+				regtEquity: 0,
+				regtEquityPercent: 0,
+				accountBalance: cash,
+				OpenCalls: {
+					minEquityCall: 0,
+					fedCall: 0,
+					cashCall: 0,
+					houseCall: 0
+				},
+				RealTimeValues: {
+					totalAccountValue: round(cash + netMvLong + netMvShort),
+					netMv: round(netMvLong + netMvShort),
+					netMvLong: round(netMvLong),
+					netMvShort: round(netMvShort),
+					totalLongValue: round(netMvLong)
+				},
+				PortfolioMargin: createPortfolioMargin()
+			}
+		};
+	}
+
+	/**
+	 * Reads an order request body, as sent for `previewOrder`, `placeOrder` and their changed order counterparts.
+	 */
+	private toRequest(accountIdKey: string, body: PaperOrderBody | undefined): PreviewOrderRequest {
+		return {
+			accountIdKey: accountIdKey,
+			orderType: body ? body.orderType : 'EQ',
+			clientOrderId: body ? body.clientOrderId : '',
+			order: body && body.Order ? body.Order : []
+		};
+	}
+
+	/**
+	 * Epoch milliseconds at which the order expires: the end of the day for day orders, of its date for `GOOD_TILL_DATE` orders.
+	 */
+	private getExpiry(detail: Partial<OrderDetail>, placedTime: number): number | undefined {
+		if(detail.orderTerm === 'GOOD_FOR_DAY'){
+			return getNextEasternMidnight(placedTime);
+		}
+
+		if(detail.orderTerm === 'GOOD_TILL_DATE' && detail.goodTillDate){
+			const date = detail.goodTillDate;
+
+			return getNextEasternMidnight(fromEasternTime(+date.slice(4, 8), +date.slice(0, 2), +date.slice(2, 4)));
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Fills the order in full if the quote satisfies its price type, triggering stops first.
+	 */
+	private fill(account: PaperAccount, order: PaperOrder, quote: PaperQuote | undefined): void {
+		if(order.status !== 'OPEN' || !quote){
+			return;
+		}
+
+		const { priceType, limitPrice, stopPrice } = order.detail;
+		const buy = isBuy(order.leg.orderAction);
+		const market = (buy ? quote.ask : quote.bid) || quote.last;
+
+		if(!market || market <= 0){
+			return;
+		}
+
+		if((priceType === 'STOP' || priceType === 'STOP_LIMIT') && !order.triggered){
+			const last = quote.last || market;
+
+			order.triggered = buy ? last >= +(stopPrice || 0) : last <= +(stopPrice || 0);
+
+			if(!order.triggered){
+				return;
+			}
+		}
+
+		if((priceType === 'LIMIT' || priceType === 'STOP_LIMIT') && (buy ? market > +(limitPrice || 0) : market < +(limitPrice || 0))){
+			return;
+		}
+
+		const errors = this.validate(account, {
+			accountIdKey: account.accountIdKey,
+			orderType: order.orderType,
+			clientOrderId: order.clientOrderId,
+			order: [{
+				...order.detail,
+				Instrument: [ order.leg ]
+			}]
+		}, market, order.orderId);
+
+		if(errors.length > 0){
+			debugPaper('rejected', order.orderId, errors);
+
+			this.close(order, 'REJECTED');
+
+			return;
+		}
+
+		this.execute(account, order, market);
+	}
+
+	private execute(account: PaperAccount, order: PaperOrder, price: number): void {
+		const { leg } = order;
+		const direction = isBuy(leg.orderAction) ? 1 : -1;
+		const now = Date.now();
+
+		account.cash -= direction * price * leg.quantity * getMultiplier(leg.Product) + this.settings.commission;
+
+		let position = this.getPosition(account, leg.Product);
+
+		if(!position){
+			position = {
+				positionId: ++this.ids.position,
+				product: { ...leg.Product },
+				lots: []
+			};
+
+			account.positions.push(position);
+		}
+
+		if(OPENING_ACTIONS.includes(leg.orderAction)){
+			position.lots.push({
+				positionLotId: ++this.ids.lot,
+				orderId: order.orderId,
+				quantity: direction * leg.quantity,
+				originalQuantity: leg.quantity,
+				price: price,
+				acquiredAt: now
+			});
+		}else{
+			// Close the oldest lots first
+			let remaining = leg.quantity;
+
+			position.lots.forEach((lot) => {
+				const closed = Math.min(remaining, Math.abs(lot.quantity));
+
+				lot.quantity += direction * closed;
+				remaining -= closed;
+			});
+
+			position.lots = position.lots.filter(({ quantity }) => {
+				return quantity !== 0;
+			});
+		}
+
+		if(position.lots.length === 0){
+			account.positions.splice(account.positions.indexOf(position), 1);
+		}
+
+		order.filledQuantity = leg.quantity;
+		order.averageExecutionPrice = price;
+
+		this.close(order, 'EXECUTED', now);
+
+		debugPaper('executed', order.orderId, leg.orderAction, leg.quantity, leg.Product.symbol, price);
+	}
+
+	private close(order: PaperOrder, status: orderStatus, time: number = Date.now()): void {
+		order.status = status;
+		order.closedTime = time;
+	}
+
+	private getMarkPrice(position: PaperPosition, quote: PaperQuote | undefined): number {
+		if(quote && quote.last && quote.last > 0){
+			return quote.last;
+		}
+
+		if(quote && quote.bid && quote.ask){
+			return (quote.bid + quote.ask) / 2;
+		}
+
+		// Without a quote, mark at the latest fill
+		return position.lots[position.lots.length - 1].price;
+	}
+
+	private toOrder(accountIdKey: string, order: PaperOrder): Order {
+		const { detail, leg } = order;
+		const price = order.averageExecutionPrice || +(detail.limitPrice || detail.stopPrice || 0);
+		const value = round(price * leg.quantity * getMultiplier(leg.Product));
+
+		return {
+			orderId: order.orderId,
+			clientOrderId: order.clientOrderId,
+			details: `accounts/${accountIdKey}/orders/${order.orderId}`,
+			orderType: order.orderType,
+			totalOrderValue: value,
+			totalCommission: order.status === 'EXECUTED' ? this.settings.commission : 0,
+			OrderDetail: [ this.toOrderDetail(accountIdKey, detail, leg, {
+				orderType: order.orderType,
+				status: order.status,
+				previewTime: 0,
+				placedTime: order.placedTime,
+				executedTime: order.status === 'EXECUTED' && order.closedTime ? order.closedTime : 0,
+				value: value,
+				filledQuantity: order.filledQuantity,
+				averageExecutionPrice: order.averageExecutionPrice
+			}) ]
+		};
+	}
+
+	private toOrderDetail(accountIdKey: string, detail: Partial<OrderDetail>, leg: Partial<Instrument>, { orderType, status, previewTime, placedTime, executedTime, value, filledQuantity, averageExecutionPrice }: OrderDetailValues): OrderDetail {
+		const product = leg.Product || {};
+		const quantity = +(leg.quantity || leg.orderedQuantity || 0);
+		const commission = this.settings.commission;
+
+		const instrument: Instrument = {
+			Product: toProduct(product),
+			symbolDescription: this.getDescription(product),
+			orderAction: leg.orderAction || 'BUY',
+			quantityType: leg.quantityType || 'QUANTITY',
+			quantity: quantity,
+			cancelQuantity: status === 'CANCELLED' || status === 'EXPIRED' ? quantity - filledQuantity : 0,
+			orderedQuantity: quantity,
+			filledQuantity: filledQuantity,
+			averageExecutionPrice: averageExecutionPrice,
+			estimatedCommission: commission,
+			estimatedFees: 0,
+			bid: 0,
+			ask: 0,
+			lastprice: 0,
+			currency: 'USD',
+			Lots: {
+				Lot: []
+			},
+			MfQuantity: {
+				cash: 0,
+				margin: 0,
+				cusip: ''
+			},
+			osiKey: getOsiKey(product),
+			mfTransaction: isBuy(leg.orderAction) ? 'BUY' : 'SELL',
+			reserveOrder: false,
+			reserveQuantity: 0
+		};
+
+		return {
+			orderNumber: 1,
+			accountId: accountIdKey,
+			previewTime: previewTime,
+			placedTime: placedTime,
+			executedTime: executedTime,
+			orderValue: value,
+			status: status,
+			orderType: orderType,
+			orderTerm: detail.orderTerm || 'GOOD_FOR_DAY',
+			goodTillDate: detail.goodTillDate || '',
+			priceType: detail.priceType || 'MARKET',
+			priceValue: '',
+			limitPrice: +(detail.limitPrice || 0),
+			stopPrice: +(detail.stopPrice || 0),
+			stopLimitPrice: 0,
+			offsetType: detail.offsetType || 'TRAILING_STOP_CNST',
+			offsetValue: 0,
+			marketSession: detail.marketSession || 'REGULAR',
+			routingDestination: detail.routingDestination || 'AUTO',
+			bracketedLimitPrice: 0,
+			initialStopPrice: 0,
+			trailPrice: 0,
+			triggerPrice: 0,
+			conditionPrice: 0,
+			conditionSymbol: '',
+			conditionType: 'CONTINGENT_GTE',
+			conditionFollowPrice: 'LAST',
+			conditionSecurityType: '',
+			replacedByOrderId: 0,
+			replacesOrderId: 0,
+			allOrNone: !!detail.allOrNone,
+			previewId: 0,
+			Instrument: [ instrument ],
+			Messages: createMessages('INFO', []),
+			preClearanceCode: '',
+			overrideRestrictedCd: 0,
+			investmentAmount: 0,
+			positionQuantity: 'ENTIRE_POSITION',
+			aipFlag: false,
+			egQual: 'EG_QUAL_UNSPECIFIED',
+			reInvestOption: 'CURRENT_HOLDING',
+			estimatedCommission: commission,
+			estimatedFees: 0,
+			estimatedTotalAmount: round(isBuy(leg.orderAction) ? value + commission : value - commission),
+			netPrice: averageExecutionPrice,
+			netBid: 0,
+			netAsk: 0,
+			gcd: 0,
+			ratio: '',
+			mfpriceType: ''
+		};
+	}
+
+	private toPosition(accountIdKey: string, position: PaperPosition, quote: PaperQuote | undefined, lotsRequired: boolean): Position {
+		const { product, lots } = position;
+		const multiplier = getMultiplier(product);
+		const quantity = lots.reduce((total, lot) => {
+			return total + lot.quantity;
+		}, 0);
+
+		const totalCost = lots.reduce((total, lot) => {
+			return total + lot.quantity * lot.price * multiplier;
+		}, 0);
+
+		const price = this.getMarkPrice(position, quote);
+		const marketValue = round(quantity * price * multiplier);
+		const totalGain = round(marketValue - totalCost);
+		const totalGainPct = totalCost !== 0 ? round((marketValue - totalCost) / Math.abs(totalCost) * 100) : 0;
+		const costPerShare = round(totalCost / quantity / multiplier);
+		const description = this.getDescription(product);
+		const time = Date.now();
+
+		return {
+			positionId: position.positionId,
+			accountId: accountIdKey,
+			Product: toProduct(product),
+			osiKey: getOsiKey(product),
+			symbolDescription: description,
+			dateAcquired: lots[0].acquiredAt,
+			pricePaid: costPerShare,
+			price: price,
+			commissions: 0,
+			otherFees: 0,
+			quantity: quantity,
+			positionIndicator: 'TYPE2',
+			positionType: quantity < 0 ? 'SHORT' : 'LONG',
+			change: 0,
+			changePct: 0,
+			daysGain: 0,
+			daysGainPct: 0,
+			marketValue: marketValue,
+			totalCost: round(totalCost),
+			totalGain: totalGain,
+			totalGainPct: totalGainPct,
+			pctOfPortfolio: 0,
+			costPerShare: costPerShare,
+			todayCommissions: 0,
+			todayFees: 0,
+			todayPricePaid: 0,
+			todayQuantity: 0,
+			quotestatus: 'REALTIME',
+			dateTimeUTC: Math.floor(time / 1000),
+			adjPrevClose: 0,
+			...createPositionViews({
+				price: price,
+				quote: quote,
+				description: description,
+				time: time,
+				marketValue: marketValue,
+				totalGain: totalGain,
+				totalGainPct: totalGainPct
+			}),
+			lotsDetails: `accounts/${accountIdKey}/portfolio/${position.positionId}`,
+			quoteDetails: `market/quote/${formatQuoteSymbol(product)}`,
+			PositionLot: lotsRequired ? this.toPositionLots(position, price) : []
+		};
+	}
+
+	private toPositionLots(position: PaperPosition, price: number): PositionLot[] {
+		const multiplier = getMultiplier(position.product);
+
+		return position.lots.map((lot) => {
+			const marketValue = lot.quantity * price * multiplier;
+			const totalCost = lot.quantity * lot.price * multiplier;
+
+			return {
+				positionId: position.positionId,
+				positionLotId: lot.positionLotId,
+				price: lot.price,
+				termCode: 0,
+				daysGain: 0,
+				daysGainPct: 0,
+				marketValue: round(marketValue),
+				totalCost: round(totalCost),
+				totalCostForGainPct: round(Math.abs(totalCost)),
+				totalGain: round(marketValue - totalCost),
+				lotSourceCode: 0,
+				originalQty: lot.originalQuantity,
+				remainingQty: lot.quantity,
+				availableQty: lot.quantity,
+				orderNo: lot.orderId,
+				legNo: 1,
+				acquiredDate: lot.acquiredAt,
+				locationCode: 0,
+				exchangeRate: 1,
+				settlementCurrency: 'USD',
+				paymentCurrency: 'USD',
+				adjPrice: 0,
+				commPerShare: 0,
+				feesPerShare: 0,
+				premiumAdj: 0,
+				shortType: lot.quantity < 0 ? 1 : 0
+			};
+		});
+	}
+
+	private getDescription(product: Partial<Product>): string {
+		return getOsiKey(product) || ('' + product.symbol).toUpperCase();
+	}
+
+}
+
+/* Interfaces / Types */
+export interface PaperOptions {
+	/**
+	 * Starting cash of each simulated account.
+	 */
+	cash: number;
+	/**
+	 * Commission charged per executed order.
+	 */
+	commission: number;
+	/**
+	 * Quotes to fill orders against, the production `getQuotes` of the client making the request by default.
+	 */
+	priceFeed?: PaperPriceFeed;
+}
+
+/**
+ * Returns quotes keyed by symbol, symbols are formatted as for `getQuotes` (see `formatQuoteSymbol`). Symbols without a quote are left unfilled.
+ */
+export type PaperPriceFeed = (symbols: string[]) => Promise<Record<string, PaperQuote>> | Record<string, PaperQuote>;
+
+export interface PaperQuote {
+	bid?: number;
+	ask?: number;
+	last?: number;
+}
+
+export type PaperResponse = {
+	PreviewOrderResponse: PreviewOrderResponse;
+} | {
+	PlaceOrderResponse: PlaceOrderResponse;
+} | {
+	CancelOrderResponse: CancelOrderResponse;
+} | {
+	OrdersResponse: ListOrdersResponse;
+} | {
+	PortfolioResponse: {
+		AccountPortfolio: Portfolio[];
+	};
+} | {
+	PositionLotsResponse: ViewLotsDetailsResponse;
+} | {
+	BalanceResponse: GetAccountBalancesResponse;
+};
+
+/**
+ * Request bodies as sent by `ETrade`, GET parameters included.
+ */
+interface PaperRequestBody extends Partial<ListOrdersRequest> {
+	PreviewOrderRequest?: PaperOrderBody;
+	PlaceOrderRequest?: PaperOrderBody;
+	CancelOrderRequest?: {
+		orderId: number;
+	};
+	lotsRequired?: boolean;
+}
+
+interface PaperOrderBody {
+	orderType: orderType;
+	clientOrderId: string | number;
+	Order: Partial<OrderDetail>[];
+	PreviewIds?: PreviewId[];
+}
+
+interface OrderDetailValues {
+	orderType: orderType;
+	status: orderStatus;
+	previewTime: number;
+	placedTime: number;
+	executedTime: number;
+	value: number;
+	filledQuantity: number;
+	averageExecutionPrice: number;
+}
+
+interface PositionViewValues {
+	price: number;
+	quote: PaperQuote | undefined;
+	description: string;
+	time: number;
+	marketValue: number;
+	totalGain: number;
+	totalGainPct: number;
+}
+
+type PositionViews = Pick<Position, 'Quick' | 'Performance' | 'Fundamental' | 'OptionsWatch' | 'Complete'>;
+
+interface PaperAccount {
+	accountIdKey: string;
+	cash: number;
+	positions: PaperPosition[];
+	orders: PaperOrder[];
+}
+
+interface PaperPosition {
+	positionId: number;
+	product: Partial<Product>;
+	/**
+	 * Oldest first, quantities are negative for short lots.
+	 */
+	lots: PaperLot[];
+}
+
+interface PaperLot {
+	positionLotId: number;
+	orderId: number;
+	quantity: number;
+	originalQuantity: number;
+	price: number;
+	acquiredAt: number;
+}
+
+interface PaperOrder {
+	orderId: number;
+	clientOrderId: string;
+	orderType: orderType;
+	placedTime: number;
+	closedTime?: number;
+	expiresAt?: number;
+	status: orderStatus;
+	detail: Partial<OrderDetail>;
+	leg: Partial<Instrument> & {
+		Product: Partial<Product>;
+		orderAction: orderAction;
+		quantity: number;
+	};
+	/**
+	 * Whether a stop order's stop price was reached.
+	 */
+	triggered: boolean;
+	filledQuantity: number;
+	averageExecutionPrice: number;
+}
+
+interface PaperPreview {
+	accountIdKey: string;
+	/**
+	 * Order being changed, for `changePreviewedOrder` previews.
+	 */
+	orderId?: number;
+}
@@ -0,0 +1,301 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	GetOptionChainsResponse,
+	OptionDetails,
+	OptionGreeks
+} from './e-trade-api';
+import {
+	callPut,
+	toOptionContract
+} from './osi';
+
+/* Globals */
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Options stop trading at 16:00 Eastern on their expiration date
+const EXPIRY_CLOSE = 16 * 60 * 60 * 1000;
+
+const MIN_VOLATILITY = 1e-4;
+const MAX_VOLATILITY = 10;
+
+/* Helpers */
+const normalPdf = (x: number): number => {
+	return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+};
+
+// Abramowitz and Stegun 26.2.17, accurate to 7.5e-8
+const normalCdf = (x: number): number => {
+	const t = 1 / (1 + 0.2316419 * Math.abs(x));
+	const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+	const tail = normalPdf(x) * poly;
+
+	return x >= 0 ? 1 - tail : tail;
+};
+
+const getIntrinsicValue = ({ spot, strike, callPut }: OptionModelInput): number => {
+	return Math.max(0, callPut === 'CALL' ? spot - strike : strike - spot);
+};
+
+/**
+ * Price the option is trading at: the bid/ask midpoint when there's a two sided market, otherwise the last trade.
+ */
+const getMarketPrice = (details: OptionDetails): number | undefined => {
+	const bid = +details.bid || 0;
+	const ask = +details.ask || 0;
+
+	if(bid > 0 && ask > 0){
+		return (bid + ask) / 2;
+	}
+
+	if(+details.lastPrice > 0){
+		return +details.lastPrice;
+	}
+
+	return undefined;
+};
+
+/* Functions */
+/**
+ * Years from `now` until the option stops trading at 16:00 Eastern on its expiration date.
+ */
+export const getTimeToExpiry = (expiry: Date | number, now: Date | number = Date.now()): number => {
+	return Math.max(0, (new Date(expiry).getTime() + EXPIRY_CLOSE - new Date(now).getTime()) / YEAR);
+};
+
+/**
+ * Black-Scholes-Merton value and greeks of a European option.
+ *
+ * Theta is per calendar day, vega and rho per percentage point, matching E-Trade's `OptionGreeks`.
+ */
+export const priceOption = (input: OptionModelInput): OptionValuation => {
+	const { spot, strike, time, volatility, rate = 0, dividendYield = 0, callPut } = input;
+	const isCall = callPut === 'CALL';
+
+	if(time <= 0 || volatility <= 0){
+		const itm = isCall ? spot > strike : spot < strike;
+
+		return {
+			price: getIntrinsicValue(input),
+			delta: itm ? (isCall ? 1 : -1) : 0,
+			gamma: 0,
+			theta: 0,
+			vega: 0,
+			rho: 0,
+			iv: volatility
+		};
+	}
+
+	const sqrtTime = Math.sqrt(time);
+	const d1 = (Math.log(spot / strike) + (rate - dividendYield + volatility * volatility / 2) * time) / (volatility * sqrtTime);
+	const d2 = d1 - volatility * sqrtTime;
+
+	const spotDiscount = Math.exp(-dividendYield * time);
+	const strikeDiscount = Math.exp(-rate * time);
+
+	const price = isCall
+		? spot * spotDiscount * normalCdf(d1) - strike * strikeDiscount * normalCdf(d2)
+		: strike * strikeDiscount * normalCdf(-d2) - spot * spotDiscount * normalCdf(-d1);
+
+	const decay = -spot * spotDiscount * normalPdf(d1) * volatility / (2 * sqrtTime);
+	const theta = isCall
+		? decay - rate * strike * strikeDiscount * normalCdf(d2) + dividendYield * spot * spotDiscount * normalCdf(d1)
+		: decay + rate * strike * strikeDiscount * normalCdf(-d2) - dividendYield * spot * spotDiscount * normalCdf(-d1);
+
+	return {
+		price: price,
+		delta: isCall ? spotDiscount * normalCdf(d1) : -spotDiscount * normalCdf(-d1),
+		gamma: spotDiscount * normalPdf(d1) / (spot * volatility * sqrtTime),
+		theta: theta / 365,
+		vega: spot * spotDiscount * normalPdf(d1) * sqrtTime / 100,
+		rho: (isCall ? 1 : -1) * strike * time * strikeDiscount * normalCdf(isCall ? d2 : -d2) / 100,
+		iv: volatility
+	};
+};
+
+/**
+ * Solves for the volatility at which `priceOption` matches `price`.
+ *
+ * Returns `undefined` if the price is outside the range the model can produce, ie. below intrinsic value.
+ */
+export const getImpliedVolatility = (price: number, input: Omit<OptionModelInput, 'volatility'>, tolerance: number = 1e-6, maxIterations: number = 100): number | undefined => {
+	if(!(price > 0) || input.time <= 0){
+		return undefined;
+	}
+
+	const valueAt = (volatility: number): number => {
+		return priceOption({
+			...input,
+			volatility: volatility
+		}).price;
+	};
+
+	let low = MIN_VOLATILITY;
+	let high = MAX_VOLATILITY;
+
+	if(price < valueAt(low) - tolerance || price > valueAt(high) + tolerance){
+		return undefined;
+	}
+
+	// Newton-Raphson, falling back to bisection whenever a step leaves the bracket
+	let volatility = 0.3;
+
+	for(let i = 0; i < maxIterations; ++i){
+		const valuation = priceOption({
+			...input,
+			volatility: volatility
+		});
+
+		const diff = valuation.price - price;
+
+		if(Math.abs(diff) < tolerance){
+			return volatility;
+		}
+
+		if(diff > 0){
+			high = volatility;
+		}else{
+			low = volatility;
+		}
+
+		// Vega is quoted per percentage point
+		const next = volatility - diff / (valuation.vega * 100);
+
+		volatility = next > low && next < high ? next : (low + high) / 2;
+	}
+
+	return volatility;
+};
+
+/**
+ * Computes the implied volatility and greeks of a chain entry from its bid/ask midpoint, or last price.
+ *
+ * The contract is read from `osiKey`, or `displaySymbol` as a fallback. Returns `undefined` if either can't be parsed or there's no usable price.
+ */
+export const priceOptionDetails = (details: OptionDetails, { spot, rate = 0, dividendYield = 0, now = Date.now() }: OptionDetailsPricingOptions): OptionValuation | undefined => {
+	const contract = toOptionContract(details);
+	const price = getMarketPrice(details);
+
+	if(!contract || price === undefined){
+		return undefined;
+	}
+
+	const input = {
+		spot: spot,
+		strike: contract.strike,
+		time: getTimeToExpiry(contract.expiry, now),
+		rate: rate,
+		dividendYield: dividendYield,
+		callPut: contract.callPut
+	};
+
+	const volatility = getImpliedVolatility(price, input);
+
+	if(volatility === undefined){
+		return undefined;
+	}
+
+	return {
+		...priceOption({
+			...input,
+			volatility: volatility
+		}),
+		// Report the market price rather than the solver's approximation of it
+		price: price
+	};
+};
+
+/**
+ * Computes `OptionGreeks` for every option in a chain that's missing them, has no `iv` or is flagged as not current.
+ *
+ * `spot` defaults to the chain's `nearPrice`. Modifies and returns `chain`.
+ */
+export const fillOptionGreeks = (chain: GetOptionChainsResponse, options: Partial<OptionDetailsPricingOptions> & { overwrite?: boolean } = {}): GetOptionChainsResponse => {
+	const spot = options.spot !== undefined ? options.spot : chain.nearPrice;
+
+	if(spot === undefined || !chain.OptionPair){
+		return chain;
+	}
+
+	chain.OptionPair.forEach((pair) => {
+		[ pair.Call, pair.Put ].forEach((details) => {
+			if(!details){
+				return;
+			}
+
+			const greeks = details.OptionGreeks;
+
+			if(!options.overwrite && greeks && greeks.iv > 0 && greeks.currentValue !== false){
+				return;
+			}
+
+			const valuation = priceOptionDetails(details, {
+				...options,
+				spot: spot
+			});
+
+			if(!valuation){
+				return;
+			}
+
+			details.OptionGreeks = {
+				delta: valuation.delta,
+				gamma: valuation.gamma,
+				theta: valuation.theta,
+				vega: valuation.vega,
+				rho: valuation.rho,
+				iv: valuation.iv,
+				currentValue: true
+			} as OptionGreeks;
+		});
+	});
+
+	return chain;
+};
+
+/* Interfaces / Types */
+export interface OptionModelInput {
+	/**
+	 * Price of the underlying.
+	 */
+	spot: number;
+	strike: number;
+	/**
+	 * Years until expiration, see `getTimeToExpiry`.
+	 */
+	time: number;
+	/**
+	 * Annualized volatility, ie. `0.25` for 25%.
+	 */
+	volatility: number;
+	/**
+	 * Annualized, continuously compounded risk free rate. Defaults to 0.
+	 */
+	rate?: number;
+	/**
+	 * Annualized, continuous dividend yield. Defaults to 0.
+	 */
+	dividendYield?: number;
+	callPut: callPut;
+}
+
+export interface OptionValuation {
+	price: number;
+	delta: number;
+	gamma: number;
+	theta: number;
+	vega: number;
+	rho: number;
+	iv: number;
+}
+
+export interface OptionDetailsPricingOptions {
+	spot: number;
+	rate?: number;
+	dividendYield?: number;
+	/**
+	 * Point in time to value the option at. Defaults to now.
+	 */
+	now?: Date | number;
+}
@@ -0,0 +1,97 @@
+'use strict';
+
+/* Dependencies */
+import { Throttle } from 'generic-throttle';
+
+/* Main Class */
+export class PriorityThrottle extends Throttle {
+
+	/**
+	 * Same as `Throttle#acquire`, but requests that have to wait are queued ahead of any waiting request with a lower priority.
+	 *
+	 * Aborting `signal` while the request is still waiting removes it from the queue and rejects it.
+	 */
+	acquire<T = any>(fn?: () => T, { priority = 0, signal, onQueued }: AcquireOptions = {}): Promise<T> {
+		// Wrap the task so its queue entry can be identified
+		const task = () => {
+			return fn ? fn() : undefined as unknown as T;
+		};
+
+		// Throttle#acquire queues and, capacity permitting, starts the task synchronously
+		const results = super.acquire<T>(task);
+
+		const index = this._pending.findIndex((pending) => {
+			return pending.fn === task;
+		});
+
+		if(index !== -1){
+			const [ pending ] = this._pending.splice(index, 1);
+
+			(pending as QueuedRequest).priority = priority;
+
+			let position = this._pending.findIndex((other) => {
+				return ((other as QueuedRequest).priority || 0) < priority;
+			});
+
+			if(position === -1){
+				position = this._pending.length;
+			}
+
+			this._pending.splice(position, 0, pending);
+
+			if(onQueued){
+				onQueued(this._pending.length);
+			}
+
+			if(signal){
+				const onAbort = () => {
+					const queued = this._pending.indexOf(pending);
+
+					if(queued !== -1){
+						this._pending.splice(queued, 1);
+
+						pending.reject(new Error('Aborted while waiting for the throttle'));
+					}
+				};
+
+				if(signal.aborted){
+					onAbort();
+				}else{
+					signal.addEventListener('abort', onAbort);
+
+					results.then(() => {
+						signal.removeEventListener('abort', onAbort);
+					}, () => {
+						signal.removeEventListener('abort', onAbort);
+					});
+				}
+			}
+		}
+
+		return results;
+	}
+
+	/**
+	 * Number of requests waiting for capacity.
+	 */
+	get queued(): number {
+		return this._pending.length;
+	}
+
+}
+
+/* Interfaces / Types */
+export interface AcquireOptions {
+	priority?: number;
+	signal?: AbortSignal;
+	/**
+	 * Called if the request has to wait for capacity, with the number of waiting requests.
+	 */
+	onQueued?: (queued: number) => void;
+}
+
+type PendingRequest = PriorityThrottle['_pending'][number];
+
+interface QueuedRequest extends PendingRequest {
+	priority?: number;
+}
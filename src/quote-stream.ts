@@ -0,0 +1,424 @@
+'use strict';
+
+/* Dependencies */
+import { EventEmitter } from 'events';
+import { debug } from 'debug';
+import type {
+	ETrade,
+	Product,
+	QuoteData,
+	detailFlag
+} from './e-trade-api';
+import {
+	AbortControllerLike,
+	createAbortController
+} from './abort-controller';
+import {
+	getNextMarketOpen,
+	isMarketOpen
+} from './market-time';
+import {
+	formatOsiKey,
+	fromOptionProduct,
+	parseOptionSymbol,
+	parseQuoteSymbol
+} from './osi';
+
+/* Debug */
+const debugStream = debug('e-trade:quote-stream');
+
+/* Globals */
+const BATCH_SIZE = 25;
+
+// Largest delay setTimeout accepts
+const MAX_TIMEOUT = 2147483647;
+
+/* Helpers */
+/**
+ * Key matching a subscribed symbol to its quotes, which carry the underlying in `Product.symbol` for options.
+ */
+const getSymbolKey = (symbol: string): string => {
+	const contract = parseQuoteSymbol(symbol) || parseOptionSymbol(symbol);
+
+	return contract ? formatOsiKey(contract) : symbol;
+};
+
+const getProductKey = (product: Partial<Product>): string | undefined => {
+	const contract = fromOptionProduct(product);
+
+	if(contract){
+		return formatOsiKey(contract);
+	}
+
+	return product.symbol ? product.symbol.toUpperCase() : undefined;
+};
+
+/* Main Class */
+export class QuoteStream extends EventEmitter {
+
+	static defaults: QuoteStreamOptions = {
+		interval: 5000,
+		detailFlag: undefined,
+		priority: -1,
+		marketHours: true,
+		extendedHours: false,
+		maxBackoff: 5 * 60 * 1000
+	};
+
+	public settings: QuoteStreamOptions;
+
+	private eTrade: ETrade;
+	/**
+	 * Subscribed symbols by `getSymbolKey`.
+	 */
+	private subscriptions: Map<string, string> = new Map();
+	private lastUpdated: Map<string, number> = new Map();
+	private timer: NodeJS.Timeout | undefined;
+	private controller: AbortControllerLike | undefined;
+	private _running: boolean = false;
+	private paused: boolean = false;
+	private failures: number = 0;
+
+	constructor(eTrade: ETrade, options?: Partial<QuoteStreamInitOptions>){
+		super();
+
+		const { symbols, ...settings } = options || {};
+
+		this.eTrade = eTrade;
+		this.settings = {
+			...QuoteStream.defaults,
+			...settings
+		};
+
+		if(symbols){
+			this.subscribe(symbols);
+		}
+	}
+
+	get running(): boolean {
+		return this._running;
+	}
+
+	get symbols(): string[] {
+		return Array.from(this.subscriptions.values());
+	}
+
+	/**
+	 * Milliseconds between polls: `interval`, or longer if polling every subscribed symbol that often would exceed the `market` rate limit.
+	 */
+	get interval(): number {
+		const { limit, period } = this.eTrade.getRateLimit('market');
+		const batches = Math.ceil(this.subscriptions.size / BATCH_SIZE);
+
+		return Math.max(this.settings.interval, Math.ceil(batches * period / limit));
+	}
+
+	subscribe(symbols: string | string[]): this {
+		(typeof(symbols) === 'string' ? symbols.split(',') : symbols).forEach((symbol) => {
+			symbol = symbol.trim().toUpperCase();
+
+			if(symbol){
+				this.subscriptions.set(getSymbolKey(symbol), symbol);
+			}
+		});
+
+		return this;
+	}
+
+	unsubscribe(symbols: string | string[]): this {
+		(typeof(symbols) === 'string' ? symbols.split(',') : symbols).forEach((symbol) => {
+			const key = getSymbolKey(symbol.trim().toUpperCase());
+
+			this.subscriptions.delete(key);
+			this.lastUpdated.delete(key);
+		});
+
+		return this;
+	}
+
+	start(): this {
+		if(this._running){
+			return this;
+		}
+
+		this._running = true;
+		this.failures = 0;
+
+		debugStream('start', this.symbols);
+
+		this.schedule(0);
+
+		return this;
+	}
+
+	/**
+	 * Stops polling, cancels the in-flight request and ends all async iterators.
+	 */
+	stop(): this {
+		if(!this._running){
+			return this;
+		}
+
+		this._running = false;
+		this.paused = false;
+
+		if(this.timer){
+			clearTimeout(this.timer);
+
+			this.timer = undefined;
+		}
+
+		if(this.controller){
+			this.controller.abort();
+
+			this.controller = undefined;
+		}
+
+		debugStream('stop');
+
+		this.emit('end');
+
+		return this;
+	}
+
+	/**
+	 * Yields every new quote until the stream is stopped, starting the stream if needed. Leaving the loop early stops a stream the iterator started.
+	 *
+	 * Polling errors are not thrown, the stream keeps backing off and retrying. Listen for `error` to observe them.
+	 */
+	[Symbol.asyncIterator](): AsyncIterableIterator<QuoteData> {
+		const buffer: QuoteData[] = [];
+		const waiting: ((result: IteratorResult<QuoteData>) => void)[] = [];
+		const started = !this._running;
+
+		let done = false;
+
+		const onQuote = (quote: QuoteData) => {
+			const resolve = waiting.shift();
+
+			if(resolve){
+				resolve({
+					value: quote,
+					done: false
+				});
+			}else{
+				buffer.push(quote);
+			}
+		};
+
+		const finish = (): IteratorResult<QuoteData> => {
+			const result = {
+				value: undefined,
+				done: true
+			} as IteratorResult<QuoteData>;
+
+			if(!done){
+				done = true;
+
+				this.removeListener('quote', onQuote);
+				this.removeListener('end', finish);
+
+				waiting.splice(0).forEach((resolve) => {
+					resolve(result);
+				});
+			}
+
+			return result;
+		};
+
+		const close = (): IteratorResult<QuoteData> => {
+			const result = finish();
+
+			if(started){
+				this.stop();
+			}
+
+			return result;
+		};
+
+		this.on('quote', onQuote);
+		this.on('end', finish);
+
+		this.start();
+
+		return {
+			next: (): Promise<IteratorResult<QuoteData>> => {
+				const quote = buffer.shift();
+
+				if(quote){
+					return Promise.resolve({
+						value: quote,
+						done: false
+					});
+				}
+
+				if(done){
+					return Promise.resolve(finish());
+				}
+
+				return new Promise((resolve) => {
+					waiting.push(resolve);
+				});
+			},
+			return: (): Promise<IteratorResult<QuoteData>> => {
+				return Promise.resolve(close());
+			},
+			throw: (err?: unknown): Promise<IteratorResult<QuoteData>> => {
+				close();
+
+				return Promise.reject(err);
+			},
+			[Symbol.asyncIterator](){
+				return this;
+			}
+		};
+	}
+
+	private schedule(delay: number): void {
+		if(!this._running){
+			return;
+		}
+
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+
+			this.poll();
+		}, Math.min(delay, MAX_TIMEOUT));
+	}
+
+	private async poll(): Promise<void> {
+		const now = Date.now();
+
+		if(this.settings.marketHours && !isMarketOpen(now, this.settings.extendedHours)){
+			const resumesAt = getNextMarketOpen(now, this.settings.extendedHours);
+
+			if(!this.paused){
+				this.paused = true;
+
+				debugStream('paused until', resumesAt);
+
+				this.emit('paused', {
+					resumesAt: resumesAt
+				});
+			}
+
+			return this.schedule(resumesAt - now);
+		}
+
+		if(this.paused){
+			this.paused = false;
+
+			debugStream('resumed');
+
+			this.emit('resumed');
+		}
+
+		const symbols = this.symbols;
+
+		if(symbols.length === 0){
+			return this.schedule(this.settings.interval);
+		}
+
+		const controller = createAbortController();
+
+		this.controller = controller;
+
+		try {
+			const { QuoteData, errors } = await this.eTrade.getQuotes({
+				symbols: symbols,
+				detailFlag: this.settings.detailFlag
+			}, {
+				signal: controller.signal,
+				priority: this.settings.priority
+			});
+
+			if(controller.signal.aborted){
+				return;
+			}
+
+			this.failures = 0;
+
+			QuoteData.forEach((quote) => {
+				const key = quote.Product ? getProductKey(quote.Product) : undefined;
+
+				// Unsubscribed while the request was in flight
+				if(key && !this.subscriptions.has(key)){
+					return;
+				}
+
+				if(key){
+					if(this.lastUpdated.get(key) === quote.dateTimeUTC){
+						return;
+					}
+
+					this.lastUpdated.set(key, quote.dateTimeUTC);
+				}
+
+				this.emit('quote', quote);
+			});
+
+			errors.forEach((error) => {
+				this.emit('quoteError', error);
+			});
+
+			this.schedule(this.interval);
+		}catch(err){
+			if(controller.signal.aborted){
+				return;
+			}
+
+			++this.failures;
+
+			const delay = Math.min(this.settings.maxBackoff, this.interval * Math.pow(2, this.failures));
+
+			debugStream('poll failed, retrying in', delay, err);
+
+			if(this.listenerCount('error') > 0){
+				this.emit('error', err);
+			}
+
+			this.schedule(delay);
+		}finally{
+			if(this.controller === controller){
+				this.controller = undefined;
+			}
+		}
+	}
+
+}
+
+/* Interfaces / Types */
+export interface QuoteStreamOptions {
+	/**
+	 * Minimum milliseconds between polls, stretched if needed to stay within the `market` rate limit.
+	 */
+	interval: number;
+	detailFlag?: detailFlag;
+	/**
+	 * Queue priority of the polling requests, below other requests by default.
+	 */
+	priority: number;
+	/**
+	 * Pause polling while US equity markets are closed.
+	 */
+	marketHours: boolean;
+	/**
+	 * Treat pre-market and after-hours sessions (4:00 to 20:00 Eastern) as open.
+	 */
+	extendedHours: boolean;
+	/**
+	 * Upper bound, in milliseconds, of the delay between polls after consecutive failures.
+	 */
+	maxBackoff: number;
+}
+
+export interface QuoteStreamInitOptions extends QuoteStreamOptions {
+	symbols: string | string[];
+}
+
+export interface QuoteStreamPausedEvent {
+	/**
+	 * Epoch milliseconds of the next market open, when polling resumes.
+	 */
+	resumesAt: number;
+}
@@ -0,0 +1,460 @@
+'use strict';
+
+/* Dependencies */
+import { debug } from 'debug';
+import type {
+	CallOptions,
+	ChangePreviewedOrderRequest,
+	ETrade,
+	Instrument,
+	Message,
+	OrderDetail,
+	PreviewOrderRequest,
+	Product,
+	orderAction,
+	orderPriceType,
+	securityType
+} from './e-trade-api';
+import { ETradeRiskError } from './errors';
+import { formatEasternDate } from './market-time';
+import { formatQuoteSymbol } from './osi';
+import type { PaperQuote } from './paper-broker';
+
+/* Debug */
+const debugRisk = debug('e-trade:risk');
+
+/* Globals */
+const OPTION_MULTIPLIER = 100;
+
+const LIMIT_PRICE_TYPES: orderPriceType[] = [ 'LIMIT', 'STOP_LIMIT', 'LIMIT_ON_OPEN', 'LIMIT_ON_CLOSE' ];
+const MARKET_PRICE_TYPES: orderPriceType[] = [ 'MARKET', 'MARKET_ON_OPEN', 'MARKET_ON_CLOSE' ];
+const OPENING_ACTIONS: orderAction[] = [ 'BUY', 'BUY_OPEN', 'SELL_SHORT' ];
+
+/* Helpers */
+const isBuy = (leg: Partial<Instrument>): boolean => {
+	return /^BUY/.test(leg.orderAction || '');
+};
+
+const getMultiplier = (product: Partial<Product> | undefined): number => {
+	return product && product.securityType === 'OPTN' ? OPTION_MULTIPLIER : 1;
+};
+
+/**
+ * Limit, or stop, price of a single leg order.
+ */
+const getOrderPrice = (detail: Partial<OrderDetail>): number | undefined => {
+	if((detail.Instrument || []).length !== 1 || !detail.priceType){
+		return undefined;
+	}
+
+	if(LIMIT_PRICE_TYPES.includes(detail.priceType) && +(detail.limitPrice as number) > 0){
+		return +(detail.limitPrice as number);
+	}
+
+	if(detail.priceType === 'STOP' && +(detail.stopPrice as number) > 0){
+		return +(detail.stopPrice as number);
+	}
+
+	return undefined;
+};
+
+/**
+ * Notional of a group, counting only the orders that can execute together.
+ */
+const combineNotionals = (orderType: PreviewOrderRequest['orderType'], notionals: number[]): number => {
+	if(orderType === 'ONE_CANCELS_ALL'){
+		return Math.max(0, ...notionals);
+	}
+
+	if(orderType === 'ONE_TRIGGERS_OCO'){
+		const [ trigger = 0, ...rest ] = notionals;
+
+		return trigger + Math.max(0, ...rest);
+	}
+
+	return notionals.reduce((total, notional) => {
+		return total + notional;
+	}, 0);
+};
+
+/* Main Class */
+export class RiskGuard {
+
+	static defaults: RiskOptions = {};
+
+	public settings: RiskOptions;
+
+	private eTrade: ETrade;
+	private daily: Record<string, DailyNotional> = {};
+
+	constructor(eTrade: ETrade, options?: Partial<RiskOptions>){
+		this.eTrade = eTrade;
+		this.settings = {
+			...RiskGuard.defaults,
+			...(options || {})
+		};
+	}
+
+	/**
+	 * Whether any limit is configured.
+	 */
+	get enabled(): boolean {
+		return Object.keys(this.settings).some((key) => {
+			return this.settings[key as keyof RiskOptions] !== undefined && this.settings[key as keyof RiskOptions] !== false;
+		});
+	}
+
+	/**
+	 * Notional of the orders placed today (US Eastern) for the account through this client.
+	 */
+	getDailyNotional(accountIdKey: string): number {
+		return this.getDaily(accountIdKey).notional;
+	}
+
+	/**
+	 * Adds a placed order's notional, as returned by `check`, to the account's daily total.
+	 *
+	 * For an order already recorded today, ie. once changed, only the difference from its previous notional is added.
+	 */
+	record(accountIdKey: string, notional: number, orderId?: number): void {
+		const daily = this.getDaily(accountIdKey);
+		const previous = orderId !== undefined ? daily.orders[orderId] || 0 : 0;
+
+		if(orderId !== undefined){
+			daily.orders[orderId] = notional;
+		}
+
+		daily.notional += notional - previous;
+
+		this.daily[accountIdKey] = daily;
+	}
+
+	/**
+	 * Checks an order against every configured limit, fetching quotes and balances only when a limit needs them.
+	 *
+	 * Resolves with the order's notional, or throws an `ETradeRiskError` listing every limit it breaks. With `closing`, set for the orders `flattenPositions` places, the notional and buying power limits are skipped and nothing is counted.
+	 */
+	async check(request: PreviewOrderRequest, callOptions?: CallOptions, closing: boolean = false): Promise<number> {
+		if(!this.enabled){
+			return 0;
+		}
+
+		const { allowSymbols, denySymbols, securityTypes, priceTypes, maxQuantity, maxOrderNotional, maxDailyNotional, collar, buyingPower } = this.settings;
+		const violations: RiskViolation[] = [];
+		const details = request.order || [];
+
+		const violate = (code: RiskViolation['code'], description: string) => {
+			violations.push({
+				code: code,
+				description: description
+			});
+		};
+
+		const allow = allowSymbols ? allowSymbols.map((symbol) => {
+			return symbol.toUpperCase();
+		}) : undefined;
+
+		const deny = (denySymbols || []).map((symbol) => {
+			return symbol.toUpperCase();
+		});
+
+		details.forEach((detail) => {
+			if(priceTypes && detail.priceType && !priceTypes.includes(detail.priceType)){
+				violate('PRICE_TYPE', `Price type ${detail.priceType} is not allowed`);
+			}
+
+			(detail.Instrument || []).forEach((leg) => {
+				const product = leg.Product || {} as Partial<Product>;
+				const symbol = ('' + (product.symbol || '')).toUpperCase();
+
+				if(securityTypes && !securityTypes.includes((product.securityType || 'EQ') as securityType)){
+					violate('SECURITY_TYPE', `Security type ${product.securityType} of ${symbol} is not allowed`);
+				}
+
+				if(allow && !allow.includes(symbol)){
+					violate('SYMBOL', `${symbol} is not on the allowed symbols list`);
+				}
+
+				if(deny.includes(symbol)){
+					violate('SYMBOL', `${symbol} is on the denied symbols list`);
+				}
+
+				if(maxQuantity !== undefined && +(leg.quantity || 0) > maxQuantity){
+					violate('MAX_QUANTITY', `Quantity ${leg.quantity} of ${symbol} exceeds the maximum of ${maxQuantity}`);
+				}
+			});
+		});
+
+		const needsNotional = !closing && (maxOrderNotional !== undefined || maxDailyNotional !== undefined || !!buyingPower);
+		const quotes = collar !== undefined || needsNotional ? await this.getQuotes(details, collar !== undefined, needsNotional, callOptions) : {};
+
+		if(collar !== undefined){
+			details.forEach((detail) => {
+				this.checkCollar(detail, collar, quotes, violate);
+			});
+		}
+
+		let notional = 0;
+
+		if(needsNotional){
+			let opening = 0;
+
+			const notionals = details.map((detail) => {
+				return (detail.Instrument || []).reduce((total, leg) => {
+					const price = this.getPrice(detail, leg, quotes);
+					const symbol = leg.Product ? leg.Product.symbol : '';
+
+					if(price === undefined){
+						violate('NO_QUOTE', `Unable to price ${symbol}, no quote available`);
+
+						return total;
+					}
+
+					const value = Math.abs(+(leg.quantity || 0) * price * getMultiplier(leg.Product));
+
+					if(leg.orderAction && OPENING_ACTIONS.includes(leg.orderAction)){
+						opening += value;
+					}
+
+					return total + value;
+				}, 0);
+			});
+
+			notional = combineNotionals(request.orderType, notionals);
+
+			if(maxOrderNotional !== undefined && notional > maxOrderNotional){
+				violate('MAX_ORDER_NOTIONAL', `Order notional of ${notional.toFixed(2)} exceeds the maximum of ${maxOrderNotional}`);
+			}
+
+			if(maxDailyNotional !== undefined){
+				const daily = this.getDaily(request.accountIdKey);
+				// A changed order replaces its previous notional
+				const replaced = 'orderId' in request ? daily.orders[(request as ChangePreviewedOrderRequest).orderId] || 0 : 0;
+
+				if(daily.notional - replaced + notional > maxDailyNotional){
+					violate('MAX_DAILY_NOTIONAL', `Order notional of ${notional.toFixed(2)} on top of ${(daily.notional - replaced).toFixed(2)} placed today exceeds the daily maximum of ${maxDailyNotional}`);
+				}
+			}
+
+			if(buyingPower && opening > 0){
+				const available = await this.getBuyingPower(request.accountIdKey, callOptions);
+
+				if(opening > available){
+					violate('BUYING_POWER', `Order requires ${opening.toFixed(2)} of buying power, ${available.toFixed(2)} available`);
+				}
+			}
+		}
+
+		if(violations.length > 0){
+			debugRisk('rejected', request.clientOrderId, violations);
+
+			throw new ETradeRiskError(`Order ${request.clientOrderId} rejected by risk limits: ${violations.map(({ description }) => {
+				return description;
+			}).join('; ')}`, {
+				code: violations[0].code,
+				messages: violations.map(({ description }) => {
+					return {
+						description: description,
+						type: 'ERROR'
+					} as Message;
+				}),
+				raw: request
+			});
+		}
+
+		return notional;
+	}
+
+	/**
+	 * The account's totals for today, started over each US Eastern day.
+	 */
+	private getDaily(accountIdKey: string): DailyNotional {
+		const day = formatEasternDate(Date.now());
+		const daily = this.daily[accountIdKey];
+
+		return daily && daily.day === day ? daily : {
+			day: day,
+			notional: 0,
+			orders: {}
+		};
+	}
+
+	/**
+	 * Latest quotes keyed by `getQuotes` symbol, of the legs that need collaring or can't be priced from the order itself.
+	 *
+	 * In `paper` mode, quotes come from the paper broker so orders are checked against the prices they fill at.
+	 */
+	private async getQuotes(details: Partial<OrderDetail>[], collar: boolean, notional: boolean, callOptions?: CallOptions): Promise<Record<string, PaperQuote>> {
+		const products: Partial<Product>[] = [];
+		const symbols: string[] = [];
+
+		details.forEach((detail) => {
+			const legs = detail.Instrument || [];
+
+			if(!(collar && legs.length === 1) && !(notional && getOrderPrice(detail) === undefined)){
+				return;
+			}
+
+			legs.forEach((leg) => {
+				const symbol = leg.Product ? formatQuoteSymbol(leg.Product) : undefined;
+
+				if(symbol && !symbols.includes(symbol)){
+					products.push(leg.Product as Partial<Product>);
+					symbols.push(symbol);
+				}
+			});
+		});
+
+		const quotes: Record<string, PaperQuote> = {};
+
+		if(symbols.length === 0){
+			return quotes;
+		}
+
+		if(this.eTrade.settings.mode === 'paper'){
+			return this.eTrade.paper.getQuotes(products, this.eTrade);
+		}
+
+		const { QuoteData } = await this.eTrade.getQuotes({
+			symbols: symbols
+		}, callOptions);
+
+		(QuoteData || []).forEach((quote) => {
+			if(quote.Product && quote.All){
+				quotes[formatQuoteSymbol(quote.Product)] = {
+					bid: +quote.All.bid,
+					ask: +quote.All.ask,
+					last: +quote.All.lastTrade
+				};
+			}
+		});
+
+		return quotes;
+	}
+
+	/**
+	 * Rejects single leg market orders on a missing or wide bid/ask, and limit orders priced further than `collar` through the bid/ask.
+	 */
+	private checkCollar(detail: Partial<OrderDetail>, collar: number, quotes: Record<string, PaperQuote>, violate: (code: RiskViolation['code'], description: string) => void): void {
+		const legs = detail.Instrument || [];
+		const priceType = detail.priceType;
+
+		if(legs.length !== 1 || !priceType || !legs[0].Product){
+			return;
+		}
+
+		const leg = legs[0];
+		const symbol = formatQuoteSymbol(leg.Product as Partial<Product>);
+		const quote = quotes[symbol];
+		const bid = quote ? +(quote.bid || 0) : 0;
+		const ask = quote ? +(quote.ask || 0) : 0;
+
+		if(MARKET_PRICE_TYPES.includes(priceType)){
+			if(bid <= 0 || ask <= 0){
+				violate('COLLAR', `No two-sided quote for ${symbol} to collar a ${priceType} order against`);
+
+				return;
+			}
+
+			const spread = (ask - bid) / ((ask + bid) / 2);
+
+			if(spread > collar){
+				violate('COLLAR', `${symbol} bid/ask spread of ${(spread * 100).toFixed(2)}% is wider than the ${(collar * 100).toFixed(2)}% collar for ${priceType} orders`);
+			}
+		}else
+		if(LIMIT_PRICE_TYPES.includes(priceType) && detail.limitPrice !== undefined){
+			const limitPrice = +detail.limitPrice;
+
+			if(isBuy(leg) && ask > 0 && limitPrice > ask * (1 + collar)){
+				violate('COLLAR', `Buy limit of ${limitPrice} is more than ${(collar * 100).toFixed(2)}% above the ${symbol} ask of ${ask}`);
+			}
+
+			if(!isBuy(leg) && bid > 0 && limitPrice < bid * (1 - collar)){
+				violate('COLLAR', `Sell limit of ${limitPrice} is more than ${(collar * 100).toFixed(2)}% below the ${symbol} bid of ${bid}`);
+			}
+		}
+	}
+
+	/**
+	 * Price a leg is expected to execute at: the order's own price for single leg orders, otherwise the ask for buys and the bid for sells.
+	 */
+	private getPrice(detail: Partial<OrderDetail>, leg: Partial<Instrument>, quotes: Record<string, PaperQuote>): number | undefined {
+		const orderPrice = getOrderPrice(detail);
+
+		if(orderPrice !== undefined){
+			return orderPrice;
+		}
+
+		const quote = leg.Product ? quotes[formatQuoteSymbol(leg.Product)] : undefined;
+
+		if(!quote){
+			return undefined;
+		}
+
+		const price = +((isBuy(leg) ? quote.ask : quote.bid) || 0) || +(quote.last || 0);
+
+		return price > 0 ? price : undefined;
+	}
+
+	private async getBuyingPower(accountIdKey: string, callOptions?: CallOptions): Promise<number> {
+		const balances = await this.eTrade.getAccountBalances({
+			accountIdKey: accountIdKey
+		}, callOptions);
+
+		const computed = balances && balances.Computed;
+
+		if(!computed){
+			return 0;
+		}
+
+		return +computed.marginBuyingPower > 0 ? +computed.marginBuyingPower : +computed.cashBuyingPower || 0;
+	}
+
+}
+
+/* Interfaces / Types */
+export interface RiskOptions {
+	/**
+	 * Maximum notional of a single order: quantity times price, times 100 for options. Market and multi-leg orders are priced from the latest quotes.
+	 */
+	maxOrderNotional?: number;
+	/**
+	 * Maximum notional placed per account and US Eastern day through this client.
+	 */
+	maxDailyNotional?: number;
+	/**
+	 * Maximum quantity of any leg.
+	 */
+	maxQuantity?: number;
+	/**
+	 * Only these symbols (underlying symbols for options) may be traded.
+	 */
+	allowSymbols?: string[];
+	denySymbols?: string[];
+	securityTypes?: securityType[];
+	priceTypes?: orderPriceType[];
+	/**
+	 * Fraction, ie. `0.05` for 5%. Market orders are rejected when the bid/ask spread is wider than this fraction of the midpoint, limit orders when priced further through the bid/ask.
+	 */
+	collar?: number;
+	/**
+	 * Rejects orders whose opening legs (`BUY`, `BUY_OPEN`, `SELL_SHORT`) exceed the account's margin buying power, or cash buying power for cash accounts.
+	 */
+	buyingPower?: boolean;
+}
+
+interface DailyNotional {
+	day: string;
+	notional: number;
+	/**
+	 * Recorded notional by order id.
+	 */
+	orders: Record<number, number>;
+}
+
+export type RiskViolationCode = 'PRICE_TYPE' | 'SECURITY_TYPE' | 'SYMBOL' | 'MAX_QUANTITY' | 'COLLAR' | 'NO_QUOTE' | 'MAX_ORDER_NOTIONAL' | 'MAX_DAILY_NOTIONAL' | 'BUYING_POWER';
+
+export interface RiskViolation {
+	code: RiskViolationCode;
+	description: string;
+}
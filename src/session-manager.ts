@@ -0,0 +1,276 @@
+'use strict';
+
+/* Dependencies */
+import { debug } from 'debug';
+import type { ETrade } from './e-trade-api';
+import { getNextEasternMidnight } from './market-time';
+
+/* Debug */
+const debugSession = debug('e-trade:session');
+
+/* Globals */
+const RENEW_RETRY_DELAY = 30 * 1000;
+
+/* Main Class */
+export class SessionManager {
+
+	static defaults: SessionOptions = {
+		keepAlive: false,
+		idleTimeout: 2 * 60 * 60 * 1000,
+		renewBefore: 5 * 60 * 1000,
+		warnBefore: 15 * 60 * 1000
+	};
+
+	public settings: SessionOptions;
+
+	public issuedAt: number | undefined;
+	public lastActivityAt: number | undefined;
+
+	private eTrade: ETrade;
+	private timer: NodeJS.Timeout | undefined;
+	private renewing: boolean = false;
+	private renewRetryAt: number = 0;
+	private warned: Partial<Record<SessionExpiryReason, boolean>> = {};
+
+	constructor(eTrade: ETrade, options?: Partial<SessionOptions>){
+		this.eTrade = eTrade;
+		this.settings = {
+			...SessionManager.defaults,
+			...(options || {})
+		};
+	}
+
+	get active(): boolean {
+		return this.issuedAt !== undefined;
+	}
+
+	/**
+	 * Epoch milliseconds at which the token goes inactive if no further requests are made.
+	 */
+	get idleExpiresAt(): number | undefined {
+		if(this.lastActivityAt === undefined){
+			return undefined;
+		}
+
+		return this.lastActivityAt + this.settings.idleTimeout;
+	}
+
+	/**
+	 * Epoch milliseconds at which the token expires outright (midnight US Eastern).
+	 */
+	get expiresAt(): number | undefined {
+		if(this.issuedAt === undefined){
+			return undefined;
+		}
+
+		return getNextEasternMidnight(this.issuedAt);
+	}
+
+	getState(): SessionState {
+		return {
+			active: this.active,
+			issuedAt: this.issuedAt,
+			lastActivityAt: this.lastActivityAt,
+			idleExpiresAt: this.idleExpiresAt,
+			expiresAt: this.expiresAt
+		};
+	}
+
+	start(issuedAt: number = Date.now(), lastActivityAt: number = Date.now()): void {
+		this.issuedAt = issuedAt;
+		this.lastActivityAt = lastActivityAt;
+		this.warned = {};
+
+		debugSession('start', this.getState());
+
+		this.schedule();
+	}
+
+	stop(): void {
+		if(this.timer){
+			clearTimeout(this.timer);
+
+			this.timer = undefined;
+		}
+
+		this.issuedAt = undefined;
+		this.lastActivityAt = undefined;
+		this.warned = {};
+	}
+
+	touch(time: number = Date.now()): void {
+		if(!this.active){
+			return;
+		}
+
+		this.lastActivityAt = time;
+		this.warned.idle = false;
+
+		this.schedule();
+	}
+
+	expire(reason: SessionExpiryReason): void {
+		if(!this.active){
+			return;
+		}
+
+		const state = this.getState();
+
+		this.stop();
+
+		debugSession('expired', reason, state);
+
+		this.eTrade.emit('sessionExpired', {
+			...state,
+			reason: reason
+		});
+	}
+
+	private schedule(): void {
+		if(this.timer){
+			clearTimeout(this.timer);
+
+			this.timer = undefined;
+		}
+
+		const now = Date.now();
+		const expiresAt = this.expiresAt;
+		const idleExpiresAt = this.idleExpiresAt;
+
+		if(expiresAt === undefined || idleExpiresAt === undefined){
+			return;
+		}
+
+		if(now >= expiresAt){
+			return this.expire('midnight');
+		}
+
+		if(now >= idleExpiresAt && !this.renewing){
+			return this.expire('idle');
+		}
+
+		const milestones: number[] = [
+			expiresAt,
+			idleExpiresAt
+		];
+
+		if(!this.warned.midnight){
+			if(now >= expiresAt - this.settings.warnBefore){
+				this.warn('midnight', expiresAt);
+			}else{
+				milestones.push(expiresAt - this.settings.warnBefore);
+			}
+		}
+
+		if(this.settings.keepAlive){
+			const renewAt = idleExpiresAt - this.settings.renewBefore;
+
+			// Renewing past midnight is pointless, the token is gone regardless
+			if(renewAt < expiresAt){
+				if(now >= renewAt && now >= this.renewRetryAt){
+					this.renew();
+				}else{
+					milestones.push(Math.max(renewAt, this.renewRetryAt));
+				}
+			}
+		}else
+		if(!this.warned.idle){
+			if(now >= idleExpiresAt - this.settings.warnBefore){
+				this.warn('idle', idleExpiresAt);
+			}else{
+				milestones.push(idleExpiresAt - this.settings.warnBefore);
+			}
+		}
+
+		const next = Math.min(...milestones.filter((milestone) => {
+			return milestone > now;
+		}));
+
+		if(!isFinite(next)){
+			return;
+		}
+
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+
+			this.schedule();
+		}, next - now);
+
+		// Never keep the process alive just to watch the session
+		this.timer.unref();
+	}
+
+	private warn(reason: SessionExpiryReason, expiresAt: number): void {
+		this.warned[reason] = true;
+
+		debugSession('expiring', reason, expiresAt);
+
+		this.eTrade.emit('sessionExpiring', {
+			...this.getState(),
+			reason: reason,
+			expiresAt: expiresAt
+		});
+	}
+
+	private async renew(): Promise<void> {
+		if(this.renewing){
+			return;
+		}
+
+		this.renewing = true;
+
+		try {
+			debugSession('renewing');
+
+			// A successful renewal touches the session through the request
+			await this.eTrade.renewAccessToken();
+
+			this.renewRetryAt = 0;
+		}catch(err){
+			debugSession('renew failed', err);
+
+			this.renewRetryAt = Date.now() + RENEW_RETRY_DELAY;
+
+			this.eTrade.emit('sessionRenewFailed', err);
+		}finally{
+			this.renewing = false;
+		}
+
+		this.schedule();
+	}
+
+}
+
+/* Interfaces / Types */
+export type SessionExpiryReason = 'idle' | 'midnight' | 'rejected' | 'revoked';
+
+export interface SessionOptions {
+	/**
+	 * Automatically call `renewAccessToken` before the token goes inactive from idleness.
+	 */
+	keepAlive: boolean;
+	/**
+	 * Milliseconds of inactivity after which E-Trade deactivates the access token. Defaults to two hours.
+	 */
+	idleTimeout: number;
+	/**
+	 * How long before the idle timeout to renew the token when `keepAlive` is enabled.
+	 */
+	renewBefore: number;
+	/**
+	 * How long before an expiry to emit `sessionExpiring`.
+	 */
+	warnBefore: number;
+}
+
+export interface SessionState {
+	active: boolean;
+	issuedAt?: number;
+	lastActivityAt?: number;
+	idleExpiresAt?: number;
+	expiresAt?: number;
+}
+
+export interface SessionEvent extends SessionState {
+	reason: SessionExpiryReason;
+}
@@ -0,0 +1,361 @@
+'use strict';
+
+/* Dependencies */
+import type {
+	Instrument,
+	OptionDetails,
+	PreviewOrderRequest,
+	marketSession,
+	orderAction,
+	orderTerm,
+	orderType
+} from './e-trade-api';
+import { ETradeValidationError } from './errors';
+import { createClientOrderId } from './order-journal';
+import {
+	OptionContract,
+	toOptionContract,
+	toOptionProduct
+} from './osi';
+
+/* Globals */
+const SHARES_PER_CONTRACT = 100;
+
+/* Helpers */
+const toContract = (option: StrategyOption, name: string): OptionContract => {
+	const contract = toOptionContract(option);
+
+	if(!contract){
+		throw new ETradeValidationError(`Unable to read the option contract of ${name}`);
+	}
+
+	return contract;
+};
+
+const assert = (condition: boolean, message: string): void => {
+	if(!condition){
+		throw new ETradeValidationError(message);
+	}
+};
+
+const assertCallPut = (contract: OptionContract, callPut: OptionContract['callPut'], name: string): void => {
+	assert(contract.callPut === callPut, `${name} must be a ${callPut.toLowerCase()}`);
+};
+
+const assertSameSeries = (contracts: OptionContract[]): void => {
+	const [ first ] = contracts;
+
+	contracts.forEach((contract) => {
+		assert(contract.underlying === first.underlying, 'All legs must have the same underlying');
+		assert(contract.expiry.getTime() === first.expiry.getTime(), 'All legs must have the same expiration');
+	});
+};
+
+const assertAscending = (strikes: number[], message: string): void => {
+	strikes.forEach((strike, i) => {
+		assert(i === 0 || strike > strikes[i - 1], message);
+	});
+};
+
+const createLeg = (contract: OptionContract, buy: boolean, quantity: number, position: StrategyPosition): Partial<Instrument> => {
+	return {
+		Product: toOptionProduct(contract),
+		orderAction: `${buy ? 'BUY' : 'SELL'}_${position}` as orderAction,
+		quantityType: 'QUANTITY',
+		quantity: quantity
+	};
+};
+
+const createOrder = (orderType: orderType, debit: boolean, legs: StrategyLeg[], options: StrategyOrderOptions): PreviewOrderRequest => {
+	const { accountIdKey, clientOrderId = createClientOrderId(), quantity, limitPrice, position = 'OPEN', orderTerm = 'GOOD_FOR_DAY', marketSession = 'REGULAR', allOrNone = false } = options;
+
+	assert(Number.isInteger(quantity) && quantity > 0, 'Quantity must be a positive integer');
+	assert(limitPrice >= 0, 'Limit price must not be negative');
+
+	return {
+		accountIdKey: accountIdKey,
+		orderType: orderType,
+		clientOrderId: clientOrderId,
+		order: [{
+			allOrNone: allOrNone,
+			priceType: limitPrice === 0 ? 'NET_EVEN' : (debit ? 'NET_DEBIT' : 'NET_CREDIT'),
+			limitPrice: limitPrice,
+			orderTerm: orderTerm,
+			marketSession: marketSession,
+			Instrument: legs.map(({ contract, buy, ratio }) => {
+				return createLeg(contract, buy, ratio * quantity, position);
+			})
+		}]
+	};
+};
+
+/* Functions */
+/**
+ * Two options of the same type and expiration at different strikes.
+ *
+ * Buying pays a debit: the lower strike call is bought, or the higher strike put.
+ */
+export const buildVerticalSpread = ({ lower, upper, direction, ...options }: VerticalSpreadOptions): PreviewOrderRequest => {
+	const lowerContract = toContract(lower, 'lower');
+	const upperContract = toContract(upper, 'upper');
+
+	assertSameSeries([ lowerContract, upperContract ]);
+	assert(lowerContract.callPut === upperContract.callPut, 'Both legs must be calls or both puts');
+	assertAscending([ lowerContract.strike, upperContract.strike ], 'The lower strike must be below the upper strike');
+
+	const buyLower = (lowerContract.callPut === 'CALL') === (direction === 'BUY');
+
+	return createOrder('SPREADS', direction === 'BUY', [{
+		contract: lowerContract,
+		buy: buyLower,
+		ratio: 1
+	}, {
+		contract: upperContract,
+		buy: !buyLower,
+		ratio: 1
+	}], options);
+};
+
+/**
+ * Two options of the same type and strike at different expirations.
+ *
+ * Buying pays a debit: the far expiration is bought and the near one sold.
+ */
+export const buildCalendarSpread = ({ near, far, direction, ...options }: CalendarSpreadOptions): PreviewOrderRequest => {
+	const nearContract = toContract(near, 'near');
+	const farContract = toContract(far, 'far');
+
+	assert(nearContract.underlying === farContract.underlying, 'All legs must have the same underlying');
+	assert(nearContract.callPut === farContract.callPut, 'Both legs must be calls or both puts');
+	assert(nearContract.strike === farContract.strike, 'Both legs must have the same strike');
+	assert(nearContract.expiry.getTime() < farContract.expiry.getTime(), 'The near leg must expire before the far leg');
+
+	return createOrder('SPREADS', direction === 'BUY', [{
+		contract: nearContract,
+		buy: direction === 'SELL',
+		ratio: 1
+	}, {
+		contract: farContract,
+		buy: direction === 'BUY',
+		ratio: 1
+	}], options);
+};
+
+/**
+ * A call and a put at the same strike and expiration, both bought or both sold.
+ */
+export const buildStraddle = ({ call, put, direction, ...options }: CallPutStrategyOptions): PreviewOrderRequest => {
+	const callContract = toContract(call, 'call');
+	const putContract = toContract(put, 'put');
+
+	assertCallPut(callContract, 'CALL', 'call');
+	assertCallPut(putContract, 'PUT', 'put');
+	assertSameSeries([ callContract, putContract ]);
+	assert(callContract.strike === putContract.strike, 'Both legs must have the same strike');
+
+	return createOrder('SPREADS', direction === 'BUY', [{
+		contract: callContract,
+		buy: direction === 'BUY',
+		ratio: 1
+	}, {
+		contract: putContract,
+		buy: direction === 'BUY',
+		ratio: 1
+	}], options);
+};
+
+/**
+ * A put and a higher strike call at the same expiration, both bought or both sold.
+ */
+export const buildStrangle = ({ call, put, direction, ...options }: CallPutStrategyOptions): PreviewOrderRequest => {
+	const callContract = toContract(call, 'call');
+	const putContract = toContract(put, 'put');
+
+	assertCallPut(callContract, 'CALL', 'call');
+	assertCallPut(putContract, 'PUT', 'put');
+	assertSameSeries([ callContract, putContract ]);
+	assertAscending([ putContract.strike, callContract.strike ], 'The put strike must be below the call strike');
+
+	return createOrder('SPREADS', direction === 'BUY', [{
+		contract: putContract,
+		buy: direction === 'BUY',
+		ratio: 1
+	}, {
+		contract: callContract,
+		buy: direction === 'BUY',
+		ratio: 1
+	}], options);
+};
+
+/**
+ * A put spread below a call spread at the same expiration, strikes in ascending order.
+ *
+ * Selling collects a credit: the inner strikes are sold and the outer ones bought.
+ */
+export const buildIronCondor = ({ lowerPut, upperPut, lowerCall, upperCall, direction, ...options }: IronCondorOptions): PreviewOrderRequest => {
+	const contracts = [
+		toContract(lowerPut, 'lowerPut'),
+		toContract(upperPut, 'upperPut'),
+		toContract(lowerCall, 'lowerCall'),
+		toContract(upperCall, 'upperCall')
+	];
+
+	assertCallPut(contracts[0], 'PUT', 'lowerPut');
+	assertCallPut(contracts[1], 'PUT', 'upperPut');
+	assertCallPut(contracts[2], 'CALL', 'lowerCall');
+	assertCallPut(contracts[3], 'CALL', 'upperCall');
+	assertSameSeries(contracts);
+	assertAscending(contracts.map(({ strike }) => {
+		return strike;
+	}), 'Strikes must ascend from lowerPut to upperCall');
+
+	return createOrder('IRON_CONDOR', direction === 'BUY', contracts.map((contract, i) => {
+		const outer = i === 0 || i === 3;
+
+		return {
+			contract: contract,
+			buy: outer === (direction === 'SELL'),
+			ratio: 1
+		};
+	}), options);
+};
+
+/**
+ * Three options of the same type and expiration in a 1:2:1 ratio, strikes in ascending order.
+ *
+ * Buying pays a debit: the wings are bought and twice as many of the middle strike sold.
+ */
+export const buildButterfly = ({ lower, middle, upper, direction, ...options }: ButterflyOptions): PreviewOrderRequest => {
+	const contracts = [
+		toContract(lower, 'lower'),
+		toContract(middle, 'middle'),
+		toContract(upper, 'upper')
+	];
+
+	assertSameSeries(contracts);
+	assert(contracts.every(({ callPut }) => {
+		return callPut === contracts[0].callPut;
+	}), 'All legs must be calls or all puts');
+	assertAscending(contracts.map(({ strike }) => {
+		return strike;
+	}), 'Strikes must ascend from lower to upper');
+
+	return createOrder('BUTTERFLY', direction === 'BUY', contracts.map((contract, i) => {
+		const wing = i !== 1;
+
+		return {
+			contract: contract,
+			buy: wing === (direction === 'BUY'),
+			ratio: wing ? 1 : 2
+		};
+	}), options);
+};
+
+/**
+ * Buys 100 shares of the underlying per call sold, for a net debit.
+ */
+export const buildCoveredCall = ({ call, ...options }: CoveredCallOptions): PreviewOrderRequest => {
+	const contract = toContract(call, 'call');
+
+	assertCallPut(contract, 'CALL', 'call');
+
+	const order = createOrder('BUY_WRITES', true, [{
+		contract: contract,
+		buy: false,
+		ratio: 1
+	}], {
+		...options,
+		position: 'OPEN'
+	});
+
+	order.order[0].Instrument = [{
+		Product: {
+			symbol: contract.underlying,
+			securityType: 'EQ'
+		},
+		orderAction: 'BUY',
+		quantityType: 'QUANTITY',
+		quantity: options.quantity * SHARES_PER_CONTRACT
+	}, ...(order.order[0].Instrument || [])];
+
+	return order;
+};
+
+/* Interfaces / Types */
+/**
+ * An entry of `getOptionChains` or `getOptionSurface`, or a parsed `OptionContract`.
+ */
+export type StrategyOption = OptionDetails | OptionContract;
+
+/**
+ * `OPEN` to open a new position, `CLOSE` to close an existing one.
+ */
+export type StrategyPosition = 'OPEN' | 'CLOSE';
+
+/**
+ * `BUY` pays a net debit, `SELL` collects a net credit.
+ */
+export type StrategyDirection = 'BUY' | 'SELL';
+
+export interface StrategyOrderOptions {
+	accountIdKey: string;
+	/**
+	 * Generated with `createClientOrderId` if not provided.
+	 */
+	clientOrderId?: string | number;
+	/**
+	 * Number of spreads, leg quantities are multiplied by their ratio.
+	 */
+	quantity: number;
+	/**
+	 * Net price per spread. `0` places the order at `NET_EVEN`.
+	 */
+	limitPrice: number;
+	position?: StrategyPosition;
+	orderTerm?: orderTerm;
+	marketSession?: marketSession;
+	allOrNone?: boolean;
+}
+
+export interface VerticalSpreadOptions extends StrategyOrderOptions {
+	lower: StrategyOption;
+	upper: StrategyOption;
+	direction: StrategyDirection;
+}
+
+export interface CalendarSpreadOptions extends StrategyOrderOptions {
+	near: StrategyOption;
+	far: StrategyOption;
+	direction: StrategyDirection;
+}
+
+export interface CallPutStrategyOptions extends StrategyOrderOptions {
+	call: StrategyOption;
+	put: StrategyOption;
+	direction: StrategyDirection;
+}
+
+export interface IronCondorOptions extends StrategyOrderOptions {
+	lowerPut: StrategyOption;
+	upperPut: StrategyOption;
+	lowerCall: StrategyOption;
+	upperCall: StrategyOption;
+	direction: StrategyDirection;
+}
+
+export interface ButterflyOptions extends StrategyOrderOptions {
+	lower: StrategyOption;
+	middle: StrategyOption;
+	upper: StrategyOption;
+	direction: StrategyDirection;
+}
+
+export interface CoveredCallOptions extends Omit<StrategyOrderOptions, 'position'> {
+	call: StrategyOption;
+}
+
+interface StrategyLeg {
+	contract: OptionContract;
+	buy: boolean;
+	ratio: number;
+}
@@ -0,0 +1,119 @@
+'use strict';
+
+/* Dependencies */
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+/* Helpers */
+const readFile = promisify(fs.readFile);
+const writeFile = promisify(fs.writeFile);
+const rename = promisify(fs.rename);
+const unlink = promisify(fs.unlink);
+
+/* Token Stores */
+export class MemoryTokenStore implements TokenStore {
+
+	private token: StoredToken | undefined;
+
+	constructor(token?: StoredToken){
+		this.token = token ? { ...token } : undefined;
+	}
+
+	load(): StoredToken | undefined {
+		return this.token ? { ...this.token } : undefined;
+	}
+
+	save(token: StoredToken): void {
+		this.token = { ...token };
+	}
+
+	clear(): void {
+		this.token = undefined;
+	}
+
+}
+
+export class FileTokenStore implements TokenStore {
+
+	public readonly path: string;
+
+	constructor(filePath: string){
+		this.path = path.resolve(filePath);
+	}
+
+	async load(): Promise<StoredToken | undefined> {
+		let contents: string;
+
+		try {
+			contents = (await readFile(this.path)).toString();
+		}catch(err: any){
+			if(err.code === 'ENOENT'){
+				return undefined;
+			}
+
+			throw err;
+		}
+
+		if(!contents.trim()){
+			return undefined;
+		}
+
+		const token = JSON.parse(contents);
+
+		if(!token || !token.accessToken || !token.accessSecret){
+			return undefined;
+		}
+
+		return token;
+	}
+
+	async save(token: StoredToken): Promise<void> {
+		// Write to a sibling file and rename over the original so concurrent
+		// readers never observe a partially written token file
+		const tmpPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+
+		await writeFile(tmpPath, JSON.stringify(token, null, '\t'), {
+			mode: 0o600
+		});
+
+		try {
+			await rename(tmpPath, this.path);
+		}catch(err){
+			await unlink(tmpPath).catch(() => {});
+
+			throw err;
+		}
+	}
+
+	async clear(): Promise<void> {
+		try {
+			await unlink(this.path);
+		}catch(err: any){
+			if(err.code !== 'ENOENT'){
+				throw err;
+			}
+		}
+	}
+
+}
+
+/* Interfaces / Types */
+export interface StoredToken {
+	accessToken: string;
+	accessSecret: string;
+	/**
+	 * Epoch milliseconds of when the access token was issued by `getAccessToken`.
+	 */
+	issuedAt?: number;
+	/**
+	 * Epoch milliseconds of the last successful `renewAccessToken` call.
+	 */
+	renewedAt?: number;
+}
+
+export interface TokenStore {
+	load(): Promise<StoredToken | undefined> | StoredToken | undefined;
+	save(token: StoredToken): Promise<void> | void;
+	clear(): Promise<void> | void;
+}
@@ -0,0 +1,124 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const http = require('http');
+const {
+	ETrade,
+	MemoryTokenStore
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const getFreePort = () => {
+	return new Promise((resolve) => {
+		const server = http.createServer();
+
+		server.listen(0, '127.0.0.1', () => {
+			const port = server.address().port;
+
+			server.close(() => {
+				resolve(port);
+			});
+		});
+	});
+};
+
+const get = (url) => {
+	return new Promise((resolve, reject) => {
+		http.get(url, (res) => {
+			res.resume();
+			res.on('end', () => {
+				resolve(res.statusCode);
+			});
+		}).on('error', reject);
+	});
+};
+
+const createOAuthServer = () => {
+	return createServer(({ path }) => {
+		if(path === '/oauth/request_token'){
+			return {
+				body: 'oauth_token=request&oauth_token_secret=requestsecret&oauth_callback_confirmed=true'
+			};
+		}
+
+		return {
+			body: 'oauth_token=access&oauth_token_secret=accesssecret'
+		};
+	});
+};
+
+/* Tests */
+test('exchanges the verifier delivered to the callback for an access token', async (t) => {
+	const server = await createOAuthServer();
+
+	t.after(server.close);
+
+	const store = new MemoryTokenStore();
+	const eTrade = new ETrade({
+		...server.options,
+		tokenStore: store
+	});
+
+	const callback = `http://127.0.0.1:${await getFreePort()}/callback`;
+
+	const token = await eTrade.authorizeInteractive({
+		callback: callback,
+		onAuthorizeUrl: async (url) => {
+			assert.match(url, /token=request$/);
+			assert.strictEqual(await get(`${callback}?oauth_token=request&oauth_verifier=12345`), 200);
+		}
+	});
+
+	assert.deepStrictEqual(token, {
+		oauth_token: 'access',
+		oauth_token_secret: 'accesssecret'
+	});
+
+	assert.strictEqual(server.requests[0].body.oauth_callback, callback);
+	assert.strictEqual(server.requests[0].query.oauth_callback, callback);
+	assert.strictEqual(server.requests[1].query.oauth_verifier, '12345');
+	assert.strictEqual(server.requests[1].query.oauth_token, 'request');
+	assert.strictEqual(store.load().accessToken, 'access');
+});
+
+test('rejects a callback for another request token', async (t) => {
+	const server = await createOAuthServer();
+
+	t.after(server.close);
+
+	const eTrade = new ETrade(server.options);
+	const callback = `http://127.0.0.1:${await getFreePort()}/callback`;
+
+	await assert.rejects(eTrade.authorizeInteractive({
+		callback: callback,
+		onAuthorizeUrl: async () => {
+			assert.strictEqual(await get(`${callback}?oauth_token=other&oauth_verifier=12345`), 400);
+		}
+	}), /valid oauth_verifier/);
+
+	assert.strictEqual(server.requests.length, 1);
+});
+
+test('times out waiting for the callback', async (t) => {
+	const server = await createOAuthServer();
+
+	t.after(server.close);
+
+	const eTrade = new ETrade(server.options);
+
+	await assert.rejects(eTrade.authorizeInteractive({
+		callback: `http://127.0.0.1:${await getFreePort()}/callback`,
+		timeout: 50,
+		onAuthorizeUrl: () => {}
+	}), /Timed out/);
+});
+
+test('requires an http callback', async () => {
+	await assert.rejects(new ETrade().authorizeInteractive({
+		callback: 'https://localhost/callback',
+		onAuthorizeUrl: () => {}
+	}), /http:\/\/ callback/);
+});
@@ -0,0 +1,630 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const { createAbortController } = require('../dist/abort-controller');
+const {
+	ETrade,
+	ETradeAbortError,
+	ETradeAuthError,
+	ETradeError,
+	ETradeNetworkError,
+	ETradeValidationError,
+	ETradeTimeoutError,
+	MemoryTokenStore
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const delay = (ms) => {
+	return new Promise((resolve) => {
+		setTimeout(resolve, ms);
+	});
+};
+
+const ACCOUNTS = {
+	AccountListResponse: {
+		Accounts: {
+			Account: [{
+				accountIdKey: 'A'
+			}]
+		}
+	}
+};
+
+const UNAUTHORIZED = {
+	status: 401,
+	body: 'oauth_problem=token_rejected'
+};
+
+const createClient = (server, options) => {
+	return new ETrade({
+		...server.options,
+		accessToken: 'old',
+		accessSecret: 'oldsecret',
+		...options
+	});
+};
+
+/* Tests */
+test('replays requests with the credentials returned by onAuthFailure', async (t) => {
+	const server = await createServer(({ query }) => {
+		return query.oauth_token === 'new' ? {
+			body: ACCOUNTS
+		} : UNAUTHORIZED;
+	});
+
+	t.after(server.close);
+
+	const store = new MemoryTokenStore();
+	const failures = [];
+
+	const eTrade = createClient(server, {
+		tokenStore: store,
+		onAuthFailure: async (err) => {
+			failures.push(err);
+
+			return {
+				accessToken: 'new',
+				accessSecret: 'newsecret'
+			};
+		}
+	});
+
+	const results = await Promise.all([
+		eTrade.listAccounts(),
+		eTrade.listAccounts()
+	]);
+
+	assert.strictEqual(results[1][0].accountIdKey, 'A');
+	assert.strictEqual(failures.length, 1);
+	assert.ok(failures[0] instanceof ETradeAuthError);
+	assert.strictEqual(eTrade.settings.accessToken, 'new');
+	assert.strictEqual(store.load().accessSecret, 'newsecret');
+	assert.strictEqual(eTrade.session.active, true);
+	assert.deepStrictEqual(server.requests.map(({ query }) => {
+		return query.oauth_token;
+	}), [ 'old', 'old', 'new', 'new' ]);
+});
+
+test('replays requests once the token was fixed without new credentials', async (t) => {
+	let renewed = false;
+
+	const server = await createServer(() => {
+		return renewed ? {
+			body: ACCOUNTS
+		} : UNAUTHORIZED;
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		onAuthFailure: () => {
+			renewed = true;
+		}
+	});
+
+	assert.strictEqual((await eTrade.listAccounts())[0].accountIdKey, 'A');
+	assert.strictEqual(server.requests.length, 2);
+});
+
+test('fails the request when onAuthFailure returns false', async (t) => {
+	const server = await createServer(() => {
+		return UNAUTHORIZED;
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		onAuthFailure: () => {
+			return false;
+		}
+	});
+
+	await assert.rejects(eTrade.listAccounts(), ETradeAuthError);
+	assert.strictEqual(server.requests.length, 1);
+});
+
+test('replays a request only once', async (t) => {
+	const server = await createServer(() => {
+		return UNAUTHORIZED;
+	});
+
+	t.after(server.close);
+
+	let calls = 0;
+
+	const eTrade = createClient(server, {
+		onAuthFailure: () => {
+			++calls;
+
+			return true;
+		}
+	});
+
+	await assert.rejects(eTrade.listAccounts(), ETradeAuthError);
+	assert.strictEqual(calls, 1);
+	assert.strictEqual(server.requests.length, 2);
+});
+
+test('retries GET requests on transient failures', async (t) => {
+	const server = await createServer((request, count) => {
+		if(count === 1){
+			return {
+				destroy: true
+			};
+		}
+
+		return count === 2 ? {
+			status: 503,
+			body: {}
+		} : {
+			body: ACCOUNTS
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server);
+	const retries = [];
+
+	eTrade.on('retry', ({ attempt, delay, error }) => {
+		retries.push([ attempt, delay, error.constructor.name ]);
+	});
+
+	assert.strictEqual((await eTrade.listAccounts())[0].accountIdKey, 'A');
+	assert.deepStrictEqual(retries, [
+		[ 1, 1, 'ETradeNetworkError' ],
+		[ 2, 2, 'ETradeError' ]
+	]);
+
+	// Every attempt is signed again
+	assert.notStrictEqual(server.requests[1].query.oauth_nonce, server.requests[2].query.oauth_nonce);
+});
+
+test('waits as long as Retry-After asks', async (t) => {
+	const server = await createServer((request, count) => {
+		return count === 1 ? {
+			status: 429,
+			headers: {
+				'Retry-After': '0.1'
+			},
+			body: {}
+		} : {
+			body: ACCOUNTS
+		};
+	});
+
+	t.after(server.close);
+
+	const started = Date.now();
+
+	await createClient(server).listAccounts();
+
+	assert.ok(Date.now() - started >= 90);
+	assert.strictEqual(server.requests.length, 2);
+});
+
+test('gives up after the configured number of attempts', async (t) => {
+	const server = await createServer(() => {
+		return {
+			status: 500,
+			body: {}
+		};
+	});
+
+	t.after(server.close);
+
+	await assert.rejects(createClient(server, {
+		retry: {
+			attempts: 2,
+			minDelay: 1,
+			jitter: false
+		}
+	}).listAccounts(), (err) => {
+		return err instanceof ETradeError && err.status === 500;
+	});
+
+	assert.strictEqual(server.requests.length, 2);
+});
+
+test('never retries orders or rejected requests', async (t) => {
+	const server = await createServer(({ method }) => {
+		return method === 'GET' ? {
+			status: 400,
+			body: {}
+		} : {
+			destroy: true
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server);
+
+	await assert.rejects(eTrade.cancelOrder({
+		accountIdKey: 'A',
+		orderId: 1
+	}), ETradeNetworkError);
+
+	await assert.rejects(eTrade.listAccounts(), ETradeValidationError);
+
+	assert.deepStrictEqual(server.requests.map(({ method }) => {
+		return method;
+	}), [ 'PUT', 'GET' ]);
+});
+
+test('times out requests, per call or by default', async (t) => {
+	const server = await createServer(async () => {
+		await delay(200);
+
+		return {
+			body: ACCOUNTS
+		};
+	});
+
+	t.after(server.close);
+
+	await assert.rejects(createClient(server).listAccounts({
+		timeout: 50
+	}), (err) => {
+		return err instanceof ETradeTimeoutError && err.method === 'GET' && err.endpoint === `${server.url}v1/accounts/list.json`;
+	});
+
+	await assert.rejects(createClient(server, {
+		timeout: 50
+	}).listAccounts(), ETradeTimeoutError);
+
+	assert.strictEqual((await createClient(server, {
+		timeout: 50
+	}).listAccounts({
+		timeout: 0
+	}))[0].accountIdKey, 'A');
+});
+
+test('counts retry delays against the timeout', async (t) => {
+	const server = await createServer(() => {
+		return {
+			status: 503,
+			body: {}
+		};
+	});
+
+	t.after(server.close);
+
+	const started = Date.now();
+
+	await assert.rejects(createClient(server, {
+		retry: {
+			minDelay: 1000
+		}
+	}).listAccounts({
+		timeout: 100
+	}), ETradeTimeoutError);
+
+	assert.ok(Date.now() - started < 500);
+	assert.strictEqual(server.requests.length, 1);
+});
+
+test('aborts requests in flight or waiting for the rate limiter', async (t) => {
+	const server = await createServer(async () => {
+		await delay(100);
+
+		return {
+			body: ACCOUNTS
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		buckets: {
+			accounts: {
+				limit: 1,
+				period: 1000
+			}
+		}
+	});
+
+	const controller = new AbortController();
+
+	const first = eTrade.listAccounts({
+		signal: controller.signal
+	});
+
+	const second = eTrade.listAccounts({
+		signal: controller.signal
+	});
+
+	await delay(50);
+
+	controller.abort();
+
+	await assert.rejects(first, ETradeAbortError);
+	await assert.rejects(second, ETradeAbortError);
+	await assert.rejects(eTrade.listAccounts({
+		signal: controller.signal
+	}), ETradeAbortError);
+
+	assert.strictEqual(server.requests.length, 1);
+});
+
+test('falls back to an abort signal stand-in without AbortController', (t) => {
+	const native = global.AbortController;
+
+	t.after(() => {
+		global.AbortController = native;
+	});
+
+	global.AbortController = undefined;
+
+	const controller = createAbortController();
+	const calls = [];
+
+	const listener = () => {
+		calls.push('removed');
+	};
+
+	controller.signal.addEventListener('abort', () => {
+		calls.push('abort');
+	});
+	controller.signal.addEventListener('abort', listener);
+	controller.signal.removeEventListener('abort', listener);
+
+	assert.strictEqual(controller.signal.aborted, false);
+
+	controller.abort();
+	controller.abort();
+
+	assert.strictEqual(controller.signal.aborted, true);
+	assert.deepStrictEqual(calls, [ 'abort' ]);
+});
+
+test('emits request, response and error events', async (t) => {
+	const server = await createServer(({ path }) => {
+		return path.includes('accounts') ? {
+			body: ACCOUNTS
+		} : {
+			status: 404,
+			body: {}
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server);
+	const events = [];
+
+	[ 'request', 'response', 'error' ].forEach((name) => {
+		eTrade.on(name, (event) => {
+			events.push([ name, event ]);
+		});
+	});
+
+	await eTrade.listAccounts();
+
+	const err = await eTrade.listAlertDetails({
+		alertId: 9
+	}).catch((err) => {
+		return err;
+	});
+
+	assert.deepStrictEqual(events.map(([ name, { id, status } ]) => {
+		return [ name, id, status ];
+	}), [
+		[ 'request', 1, undefined ],
+		[ 'response', 1, 200 ],
+		[ 'request', 2, undefined ],
+		[ 'error', 2, 404 ]
+	]);
+
+	const [ , request ] = events[2];
+
+	assert.strictEqual(request.operation, 'listAlertDetails');
+	assert.strictEqual(request.bucket, 'alerts');
+	assert.strictEqual(request.method, 'GET');
+	assert.strictEqual(request.attempt, 1);
+	assert.deepStrictEqual(request.params, {
+		htmlTags: false
+	});
+
+	assert.ok(events[1][1].duration >= 0);
+	assert.strictEqual(events[3][1].error, err);
+	assert.strictEqual(err.requestId, 2);
+});
+
+test('only emits error events to listeners', async (t) => {
+	const server = await createServer(() => {
+		return {
+			status: 404,
+			body: {}
+		};
+	});
+
+	t.after(server.close);
+
+	await assert.rejects(createClient(server).listAccounts(), (err) => {
+		return err.status === 404;
+	});
+});
+
+test('batches quote requests and collects every quote', async (t) => {
+	const server = await createServer(({ path }) => {
+		const symbols = decodeURIComponent(path.replace('/v1/market/quote/', '').replace('.json', '')).split(',');
+
+		if(symbols.includes('DOWN')){
+			return {
+				status: 500,
+				body: {}
+			};
+		}
+
+		return {
+			body: {
+				QuoteResponse: {
+					QuoteData: symbols.filter((symbol) => {
+						return symbol !== 'GONE';
+					}).map((symbol) => {
+						return symbol === 'BAD' ? {
+							errorMessage: 'Invalid symbol',
+							Product: {
+								symbol: symbol
+							}
+						} : {
+							Product: {
+								symbol: symbol
+							}
+						};
+					}),
+					Messages: symbols.includes('GONE') ? {
+						Message: [{
+							code: 10033,
+							description: 'GONE is not a valid symbol',
+							type: 'WARNING'
+						}]
+					} : undefined
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		retry: {
+			attempts: 1
+		}
+	});
+
+	const symbols = Array.from({ length: 60 }, (value, i) => {
+		return `S${i}`;
+	});
+
+	const quotes = await eTrade.getQuotes({
+		symbols: symbols.concat([ 'BAD', 'GONE' ]).join(', ')
+	});
+
+	assert.deepStrictEqual(server.requests.map(({ path }) => {
+		return path.split(',').length;
+	}), [ 25, 25, 12 ]);
+	assert.deepStrictEqual(quotes.QuoteData.map(({ Product }) => {
+		return Product.symbol;
+	}), symbols);
+	assert.deepStrictEqual(quotes.errors, [{
+		symbol: 'BAD',
+		message: 'Invalid symbol'
+	}, {
+		message: 'GONE is not a valid symbol',
+		code: 10033
+	}]);
+
+	server.requests.length = 0;
+
+	const overridden = await eTrade.getQuotes({
+		symbols: symbols.concat([ 'DOWN' ]),
+		overrideSymbolCount: true
+	});
+
+	assert.deepStrictEqual(server.requests.map(({ path }) => {
+		return path.split(',').length;
+	}), [ 50, 11 ]);
+	assert.strictEqual(overridden.QuoteData.length, 50);
+	assert.deepStrictEqual(overridden.errors.map(({ symbol, code }) => {
+		return [ symbol, code ];
+	}), symbols.slice(50).concat([ 'DOWN' ]).map((symbol) => {
+		return [ symbol, 500 ];
+	}));
+
+	await assert.rejects(eTrade.getQuotes({
+		symbols: [ 'DOWN' ]
+	}), ETradeError);
+});
+
+test('merges the option chains of every expiration into one surface', async (t) => {
+	const createDetails = (expiryMonth, strike, callPut, bid, ask) => {
+		return {
+			symbol: 'AAPL',
+			osiKey: `AAPL--24${('' + expiryMonth).padStart(2, '0')}19${callPut[0]}${('' + strike * 1000).padStart(8, '0')}`,
+			displaySymbol: '',
+			strikePrice: strike,
+			bid: bid,
+			ask: ask,
+			inTheMoney: callPut === 'CALL' ? 'y' : 'n',
+			OptionGreeks: {
+				delta: callPut === 'CALL' ? 0.5 : -0.5,
+				iv: 0.3
+			}
+		};
+	};
+
+	const server = await createServer(({ path, query }) => {
+		if(path.endsWith('optionexpiredate.json')){
+			return {
+				body: {
+					OptionExpireDateResponse: {
+						ExpirationDate: [ 3, 1, 2 ].map((month) => {
+							return {
+								year: 2024,
+								month: month,
+								day: 19,
+								expiryType: 'MONTHLY'
+							};
+						})
+					}
+				}
+			};
+		}
+
+		const month = +query.expiryMonth;
+
+		return {
+			body: {
+				OptionChainResponse: {
+					nearPrice: 150,
+					OptionPair: [{
+						Call: createDetails(month, 155, 'CALL', 1, 1.2),
+						Put: createDetails(month, 155, 'PUT', 6, 0)
+					}, {
+						Call: createDetails(month, 145, 'CALL', 7, 7.4)
+					}]
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	const surface = await createClient(server).getOptionSurface('aapl', {
+		fromDate: '2024-02-01'
+	});
+
+	assert.strictEqual(surface.symbol, 'AAPL');
+	assert.strictEqual(surface.nearPrice, 150);
+	assert.deepStrictEqual(surface.dates, [ '2024-02-19', '2024-03-19' ]);
+	assert.deepStrictEqual(server.requests.slice(1).map(({ query }) => {
+		return [ query.expiryMonth, query.chainType, query.priceType ];
+	}).sort(), [
+		[ '2', 'CALLPUT', 'ALL' ],
+		[ '3', 'CALLPUT', 'ALL' ]
+	]);
+
+	const expiration = surface.expirations['2024-02-19'];
+
+	assert.strictEqual(expiration.expiry.toISOString(), '2024-02-19T05:00:00.000Z');
+	assert.strictEqual(expiration.expiryType, 'MONTHLY');
+	assert.deepStrictEqual(expiration.strikePrices, [ 145, 155 ]);
+	assert.strictEqual(expiration.strikes['145'].put, undefined);
+
+	const { call, put } = expiration.strikes['155'];
+
+	assert.strictEqual(call.osiKey, 'AAPL--240219C00155000');
+	assert.strictEqual(call.callPut, 'CALL');
+	assert.strictEqual(call.strike, 155);
+	assert.strictEqual(call.mid, 1.1);
+	assert.strictEqual(call.inTheMoney, true);
+	assert.strictEqual(call.greeks.delta, 0.5);
+	assert.strictEqual(put.callPut, 'PUT');
+	assert.strictEqual(put.mid, undefined);
+	assert.strictEqual(put.inTheMoney, false);
+});
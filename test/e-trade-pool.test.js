@@ -0,0 +1,114 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const { ETradePool } = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const ACCOUNTS = {
+	AccountListResponse: {
+		Accounts: {
+			Account: []
+		}
+	}
+};
+
+/* Tests */
+test('adds, looks up and removes users', () => {
+	const pool = new ETradePool({
+		key: 'key',
+		secret: 'secret',
+		accessToken: 'ignored'
+	});
+
+	assert.strictEqual(pool.client.settings.accessToken, '');
+
+	const client = pool.add('alice', {
+		accessToken: 'a',
+		accessSecret: 'as'
+	});
+
+	assert.throws(() => {
+		pool.add('alice', {});
+	}, /already exists/);
+
+	assert.strictEqual(pool.get('alice'), client);
+	assert.strictEqual(pool.has('alice'), true);
+	assert.deepStrictEqual(pool.users(), [ 'alice' ]);
+	assert.strictEqual(client.settings.key, 'key');
+	assert.strictEqual(client.settings.accessToken, 'a');
+	assert.strictEqual(client.session.active, true);
+
+	assert.strictEqual(pool.remove('alice'), true);
+	assert.strictEqual(pool.remove('alice'), false);
+	assert.strictEqual(client.session.active, false);
+
+	assert.throws(() => {
+		pool.get('alice');
+	}, /Unknown user/);
+});
+
+test('signs with each user\'s token and shares one rate limiter', async (t) => {
+	const server = await createServer(() => {
+		return {
+			body: ACCOUNTS
+		};
+	});
+
+	t.after(server.close);
+
+	const pool = new ETradePool({
+		...server.options,
+		buckets: {
+			accounts: {
+				limit: 1,
+				period: 100
+			}
+		}
+	});
+
+	const alice = pool.add('alice', {
+		accessToken: 'a',
+		accessSecret: 'as'
+	});
+
+	const bob = pool.add('bob', {
+		accessToken: 'b',
+		accessSecret: 'bs'
+	});
+
+	assert.deepStrictEqual(bob.getRateLimit('accounts'), {
+		limit: 1,
+		period: 100
+	});
+
+	const throttled = [];
+	const responses = [];
+
+	pool.on('throttled', (userId) => {
+		throttled.push(userId);
+	});
+
+	pool.on('response', (userId, { operation }) => {
+		responses.push([ userId, operation ]);
+	});
+
+	const started = Date.now();
+
+	await Promise.all([
+		alice.listAccounts(),
+		bob.listAccounts()
+	]);
+
+	assert.ok(Date.now() - started >= 90);
+	assert.deepStrictEqual(throttled, [ 'bob' ]);
+	assert.deepStrictEqual(responses, [
+		[ 'alice', 'listAccounts' ],
+		[ 'bob', 'listAccounts' ]
+	]);
+	assert.deepStrictEqual(server.requests.map(({ query }) => {
+		return query.oauth_token;
+	}), [ 'a', 'b' ]);
+});
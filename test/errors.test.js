@@ -0,0 +1,145 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETradeAuthError,
+	ETradeError,
+	ETradeNetworkError,
+	ETradeNotFoundError,
+	ETradeOrderRejectedError,
+	ETradeRateLimitError,
+	ETradeRiskError,
+	ETradeTimeoutError,
+	ETradeAbortError,
+	ETradeValidationError
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const REQUEST = {
+	baseURL: 'https://api.etrade.com/v1/',
+	url: 'market/quote/AAPL.json'
+};
+
+const ORDER_REQUEST = {
+	method: 'post',
+	baseURL: 'https://api.etrade.com/v1/',
+	url: 'accounts/A/orders/place.json'
+};
+
+const createAxiosError = (status, data, headers = {}) => {
+	return {
+		isAxiosError: true,
+		message: `Request failed with status code ${status}`,
+		response: {
+			status: status,
+			statusText: 'Status Text',
+			headers: headers,
+			data: data
+		}
+	};
+};
+
+/* Tests */
+test('classifies responses by HTTP status', () => {
+	const cases = [
+		[ 401, REQUEST, ETradeAuthError ],
+		[ 429, REQUEST, ETradeRateLimitError ],
+		[ 404, REQUEST, ETradeNotFoundError ],
+		[ 400, REQUEST, ETradeValidationError ],
+		[ 400, ORDER_REQUEST, ETradeOrderRejectedError ],
+		[ 500, REQUEST, ETradeError ]
+	];
+
+	cases.forEach(([ status, request, type ]) => {
+		const err = ETradeError.from(createAxiosError(status, ''), request, 3);
+
+		assert.strictEqual(err.constructor, type, `${status} ${request.url}`);
+		assert.strictEqual(err.status, status);
+		assert.strictEqual(err.code, status);
+		assert.strictEqual(err.message, 'Status Text');
+		assert.strictEqual(err.requestId, 3);
+	});
+});
+
+test('classifies by E-Trade\'s error code before the HTTP status', () => {
+	const expired = ETradeError.from(createAxiosError(400, 'oauth_problem=token_expired'), REQUEST);
+
+	assert.ok(expired instanceof ETradeAuthError);
+	assert.strictEqual(expired.code, 'token_expired');
+
+	const symbol = ETradeError.from(createAxiosError(500, {
+		Error: {
+			code: 10033,
+			message: 'ZZZZ is not a valid symbol'
+		}
+	}), REQUEST);
+
+	assert.ok(symbol instanceof ETradeValidationError);
+	assert.strictEqual(symbol.code, 10033);
+	assert.strictEqual(symbol.message, 'ZZZZ is not a valid symbol');
+
+	const absent = ETradeError.from(createAxiosError(400, 'oauth_problem=parameter_absent'), ORDER_REQUEST);
+
+	assert.ok(absent instanceof ETradeValidationError);
+});
+
+test('keeps E-Trade\'s messages, headers and endpoint', () => {
+	const err = ETradeError.from(createAxiosError(400, {
+		Error: {
+			code: 1019,
+			message: 'Order rejected'
+		},
+		Messages: {
+			Message: [{
+				code: 1020,
+				description: 'Insufficient funds',
+				type: 'ERROR'
+			}]
+		}
+	}, {
+		'retry-after': '1'
+	}), ORDER_REQUEST, 1);
+
+	assert.ok(err instanceof ETradeOrderRejectedError);
+	assert.strictEqual(err.code, 1019);
+	assert.strictEqual(err.method, 'POST');
+	assert.strictEqual(err.endpoint, 'https://api.etrade.com/v1/accounts/A/orders/place.json');
+	assert.strictEqual(err.headers['retry-after'], '1');
+	assert.deepStrictEqual(err.messages.map(({ code }) => {
+		return code;
+	}), [ 1019, 1020 ]);
+});
+
+test('wraps requests without a response as network errors', () => {
+	const err = ETradeError.from({
+		isAxiosError: true,
+		code: 'ECONNRESET',
+		message: 'socket hang up'
+	}, REQUEST);
+
+	assert.ok(err instanceof ETradeNetworkError);
+	assert.strictEqual(err.code, 'ECONNRESET');
+	assert.strictEqual(err.status, undefined);
+});
+
+test('passes through errors that aren\'t failed requests', () => {
+	const plain = new TypeError('bug');
+	const own = new ETradeValidationError('invalid');
+
+	assert.strictEqual(ETradeError.from(plain, REQUEST), plain);
+	assert.strictEqual(ETradeError.from(own, REQUEST), own);
+});
+
+test('names errors after their class and nests the hierarchy', () => {
+	const err = new ETradeTimeoutError('timed out', {
+		code: 'ETIMEDOUT'
+	});
+
+	assert.strictEqual(err.name, 'ETradeTimeoutError');
+	assert.strictEqual(err.code, 'ETIMEDOUT');
+	assert.deepStrictEqual(err.messages, []);
+	assert.ok(err instanceof ETradeAbortError);
+	assert.ok(new ETradeRiskError('risk') instanceof ETradeOrderRejectedError);
+});
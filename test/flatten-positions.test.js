@@ -0,0 +1,274 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETrade,
+	ETradeAbortError,
+	ETradeOrderRejectedError
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const createOrder = (orderId, symbol, status) => {
+	return {
+		orderId: orderId,
+		orderType: 'EQ',
+		OrderDetail: [{
+			status: status,
+			placedTime: Date.now(),
+			priceType: 'LIMIT',
+			Instrument: [{
+				Product: {
+					symbol: symbol,
+					securityType: 'EQ'
+				},
+				orderAction: 'BUY',
+				orderedQuantity: 10,
+				filledQuantity: status === 'PARTIAL' ? 5 : 0
+			}]
+		}]
+	};
+};
+
+const createPosition = (positionId, symbol, quantity) => {
+	return {
+		positionId: positionId,
+		Product: {
+			symbol: symbol,
+			securityType: 'EQ'
+		},
+		quantity: quantity,
+		positionType: quantity < 0 ? 'SHORT' : 'LONG'
+	};
+};
+
+/**
+ * An account holding `positions` with `orders` working, cancels are confirmed unless the order is in `stuck`.
+ */
+const createAccountServer = ({ orders, positions, stuck = [] }) => {
+	const getStatus = (order) => {
+		return order.OrderDetail[0].status;
+	};
+
+	const setStatus = (order, status) => {
+		order.OrderDetail[0].status = status;
+	};
+
+	let orderId = 100;
+
+	return createServer(({ path, query, body }) => {
+		if(path.endsWith('/orders.json')){
+			// Cancels take effect by the time the order is polled
+			if(!query.status){
+				orders.forEach((order) => {
+					if(getStatus(order) === 'CANCEL_REQUESTED' && !stuck.includes(order.orderId)){
+						setStatus(order, 'CANCELLED');
+					}
+				});
+			}
+
+			return {
+				body: {
+					OrdersResponse: {
+						Order: orders.filter((order) => {
+							return !query.status || getStatus(order) === query.status;
+						})
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/orders/cancel.json')){
+			const order = orders.find(({ orderId }) => {
+				return orderId === body.CancelOrderRequest.orderId;
+			});
+
+			setStatus(order, 'CANCEL_REQUESTED');
+
+			return {
+				body: {
+					CancelOrderResponse: {
+						orderId: order.orderId
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/portfolio.json')){
+			return {
+				body: {
+					PortfolioResponse: {
+						AccountPortfolio: [{
+							Position: positions
+						}]
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/preview.json')){
+			return {
+				body: {
+					PreviewOrderResponse: {
+						orderType: body.PreviewOrderRequest.orderType,
+						Order: body.PreviewOrderRequest.Order,
+						PreviewIds: [{
+							previewId: 1
+						}]
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/place.json')){
+			return {
+				body: {
+					PlaceOrderResponse: {
+						orderType: body.PlaceOrderRequest.orderType,
+						Order: body.PlaceOrderRequest.Order,
+						OrderIds: [{
+							orderId: ++orderId
+						}]
+					}
+				}
+			};
+		}
+
+		return {
+			status: 404,
+			body: {}
+		};
+	});
+};
+
+const createClient = (server, risk) => {
+	return new ETrade({
+		...server.options,
+		accessToken: 'token',
+		accessSecret: 'secret',
+		risk: risk
+	});
+};
+
+const getPlaced = (server) => {
+	return server.requests.filter(({ path }) => {
+		return path.endsWith('/place.json');
+	}).map(({ body }) => {
+		const [ leg ] = body.PlaceOrderRequest.Order[0].Instrument;
+
+		return `${leg.orderAction} ${leg.quantity} ${leg.Product.symbol}`;
+	});
+};
+
+/* Tests */
+test('cancels open and partially filled orders and confirms pending cancels before closing', async (t) => {
+	const orders = [
+		createOrder(1, 'AAPL', 'OPEN'),
+		createOrder(2, 'AAPL', 'PARTIAL'),
+		createOrder(3, 'MSFT', 'CANCEL_REQUESTED'),
+		createOrder(4, 'IBM', 'OPEN')
+	];
+
+	const server = await createAccountServer({
+		orders: orders,
+		positions: [
+			createPosition(11, 'AAPL', 100),
+			createPosition(12, 'MSFT', -5),
+			createPosition(13, 'IBM', 20)
+		]
+	});
+
+	t.after(server.close);
+
+	const { cancelled, closed } = await createClient(server).flattenPositions({
+		accountIdKey: 'A',
+		symbols: [ 'aapl', 'MSFT' ]
+	});
+
+	assert.deepStrictEqual(cancelled.map(({ orderId, success }) => {
+		return [ orderId, success ];
+	}), [ [ 1, true ], [ 2, true ], [ 3, true ] ]);
+
+	const cancels = server.requests.filter(({ path }) => {
+		return path.endsWith('/cancel.json');
+	}).map(({ body }) => {
+		return body.CancelOrderRequest.orderId;
+	});
+
+	assert.deepStrictEqual(cancels, [ 1, 2 ]);
+	assert.deepStrictEqual(orders.map(({ OrderDetail }) => {
+		return OrderDetail[0].status;
+	}), [ 'CANCELLED', 'CANCELLED', 'CANCELLED', 'OPEN' ]);
+
+	assert.deepStrictEqual(closed.map(({ symbol, orderAction, success }) => {
+		return [ symbol, orderAction, success ];
+	}), [ [ 'AAPL', 'SELL', true ], [ 'MSFT', 'BUY_TO_COVER', true ] ]);
+	assert.deepStrictEqual(getPlaced(server), [ 'SELL 100 AAPL', 'BUY_TO_COVER 5 MSFT' ]);
+});
+
+test('leaves positions open while their cancels are unconfirmed', async (t) => {
+	const server = await createAccountServer({
+		orders: [
+			createOrder(1, 'AAPL', 'CANCEL_REQUESTED'),
+			createOrder(2, 'MSFT', 'OPEN')
+		],
+		positions: [
+			createPosition(11, 'AAPL', 100),
+			createPosition(12, 'MSFT', 10)
+		],
+		stuck: [ 1 ]
+	});
+
+	t.after(server.close);
+
+	const { cancelled, closed } = await createClient(server).flattenPositions({
+		accountIdKey: 'A',
+		cancelTimeout: 100
+	});
+
+	const unconfirmed = cancelled.find(({ orderId }) => {
+		return orderId === 1;
+	});
+
+	assert.strictEqual(unconfirmed.success, false);
+	assert.ok(unconfirmed.error instanceof ETradeAbortError);
+
+	assert.strictEqual(closed[0].symbol, 'AAPL');
+	assert.strictEqual(closed[0].success, false);
+	assert.ok(closed[0].error instanceof ETradeOrderRejectedError);
+	assert.strictEqual(closed[1].success, true);
+	assert.deepStrictEqual(getPlaced(server), [ 'SELL 10 MSFT' ]);
+});
+
+test('closes positions beyond the notional limits but not the symbol or quantity limits', async (t) => {
+	const server = await createAccountServer({
+		orders: [],
+		positions: [
+			createPosition(11, 'AAPL', 100),
+			createPosition(12, 'GME', 10),
+			createPosition(13, 'MSFT', 5000)
+		]
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		maxOrderNotional: 1,
+		maxDailyNotional: 1,
+		buyingPower: true,
+		maxQuantity: 1000,
+		denySymbols: [ 'GME' ]
+	});
+
+	const { closed } = await eTrade.flattenPositions({
+		accountIdKey: 'A'
+	});
+
+	assert.deepStrictEqual(closed.map(({ success, error }) => {
+		return success || error.code;
+	}), [ true, 'SYMBOL', 'MAX_QUANTITY' ]);
+	assert.deepStrictEqual(getPlaced(server), [ 'SELL 100 AAPL' ]);
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 0);
+});
@@ -0,0 +1,107 @@
+'use strict';
+
+/* Dependencies */
+const http = require('http');
+
+/* Functions */
+/**
+ * Starts a local stand-in for the E-Trade API. `handler` receives each request and returns `{ status, headers, body }`, objects are sent as JSON.
+ */
+const createServer = async (handler) => {
+	const requests = [];
+
+	const server = http.createServer((req, res) => {
+		const chunks = [];
+
+		req.on('data', (chunk) => {
+			chunks.push(chunk);
+		});
+
+		req.on('end', async () => {
+			const url = new URL(req.url, 'http://127.0.0.1');
+			const body = Buffer.concat(chunks).toString();
+
+			const request = {
+				method: req.method,
+				path: url.pathname,
+				query: Object.fromEntries(url.searchParams),
+				headers: req.headers,
+				body: body && req.headers['content-type'] && req.headers['content-type'].includes('json') ? JSON.parse(body) : body
+			};
+
+			requests.push(request);
+
+			let reply;
+
+			try {
+				reply = (await handler(request, requests.length)) || {};
+			}catch(err){
+				reply = {
+					status: 500,
+					body: {
+						Error: {
+							message: err.message
+						}
+					}
+				};
+			}
+
+			if(reply.destroy){
+				return req.socket.destroy();
+			}
+
+			res.statusCode = reply.status || 200;
+
+			Object.keys(reply.headers || {}).forEach((key) => {
+				res.setHeader(key, reply.headers[key]);
+			});
+
+			if(typeof(reply.body) === 'string'){
+				res.setHeader('Content-Type', 'text/plain');
+				res.end(reply.body);
+			}else{
+				res.setHeader('Content-Type', 'application/json');
+				res.end(JSON.stringify(reply.body || {}));
+			}
+		});
+	});
+
+	await new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', resolve);
+	});
+
+	const url = `http://127.0.0.1:${server.address().port}/`;
+
+	return {
+		url: url,
+		requests: requests,
+		/**
+		 * `ETrade` options pointing every API at this server.
+		 */
+		options: {
+			mode: 'dev',
+			key: 'key',
+			secret: 'secret',
+			urls: {
+				oauth: `${url}oauth/`,
+				dev: `${url}v1/`
+			},
+			retry: {
+				minDelay: 1,
+				maxDelay: 5,
+				jitter: false
+			}
+		},
+		close: () => {
+			return new Promise((resolve) => {
+				server.closeAllConnections();
+				server.close(resolve);
+			});
+		}
+	};
+};
+
+/* Exports */
+module.exports = {
+	createServer
+};
@@ -0,0 +1,52 @@
+'use strict';
+
+// Dates must come out the same in any time zone, pin one where UTC midnight is the previous day
+process.env.TZ = 'America/New_York';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETradeValidationError,
+	OrderBuilder,
+	formatEasternDate
+} = require('../dist/e-trade-api');
+
+/* Globals */
+const YEAR = new Date().getFullYear() + 1;
+
+/* Tests */
+test('formats goodTillDate calendar dates as the same US Eastern date', () => {
+	const iso = new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(`${YEAR}-03-15`).build();
+	const compact = new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(`0315${YEAR}`).build();
+
+	assert.strictEqual(iso.order[0].goodTillDate, `0315${YEAR}`);
+	assert.strictEqual(compact.order[0].goodTillDate, `0315${YEAR}`);
+});
+
+test('formats goodTillDate instants by their US Eastern date', () => {
+	// 02:00 UTC is still the previous evening in New York
+	const order = new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(Date.UTC(YEAR, 2, 16, 2)).build();
+
+	assert.strictEqual(order.order[0].goodTillDate, `0315${YEAR}`);
+});
+
+test('reads goodTillDate back unchanged with OrderBuilder.from', () => {
+	const order = new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(`${YEAR}-12-31`).build();
+	const copy = OrderBuilder.from(order.order[0], 'XXXXXX').build();
+
+	assert.strictEqual(copy.order[0].goodTillDate, `1231${YEAR}`);
+});
+
+test('accepts orders good till today and rejects past dates', () => {
+	const DAY = 24 * 60 * 60 * 1000;
+
+	const today = new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(formatEasternDate()).build();
+
+	assert.strictEqual(today.order[0].goodTillDate, formatEasternDate());
+	assert.strictEqual(OrderBuilder.from(today.order[0], 'XXXXXX').build().order[0].goodTillDate, formatEasternDate());
+
+	assert.throws(() => {
+		new OrderBuilder('XXXXXX').buy('AAPL', 10).limit(150).goodTillDate(formatEasternDate(Date.now() - DAY)).build();
+	}, ETradeValidationError);
+});
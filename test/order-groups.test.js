@@ -0,0 +1,231 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETradeValidationError,
+	OrderBuilder,
+	buildBracketOrder,
+	buildContingentOrder,
+	buildOcoOrder,
+	buildOrderGroup,
+	parseOrderGroup
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const getActions = (request) => {
+	return request.order.map((detail) => {
+		return `${detail.Instrument[0].orderAction} ${detail.priceType}`;
+	});
+};
+
+const assertInvalid = (fn, description) => {
+	assert.throws(fn, (err) => {
+		return err instanceof ETradeValidationError && err.messages.some((message) => {
+			return message.description === description;
+		});
+	});
+};
+
+/* Tests */
+test('brackets a long entry with a higher take-profit and a lower stop-loss', () => {
+	const request = buildBracketOrder({
+		accountIdKey: 'A',
+		clientOrderId: 'bracket',
+		entry: new OrderBuilder().buy('AAPL', 10).limit(100),
+		takeProfit: 110,
+		stopLoss: 95
+	});
+
+	assert.strictEqual(request.orderType, 'ONE_TRIGGERS_OCO');
+	assert.strictEqual(request.clientOrderId, 'bracket');
+	assert.deepStrictEqual(getActions(request), [ 'BUY LIMIT', 'SELL LIMIT', 'SELL STOP' ]);
+	assert.strictEqual(request.order[1].limitPrice, 110);
+	assert.strictEqual(request.order[2].stopPrice, 95);
+	assert.strictEqual(request.order[1].Instrument[0].quantity, 10);
+	assert.strictEqual(request.order[2].orderTerm, 'GOOD_FOR_DAY');
+});
+
+test('brackets a short entry with a lower take-profit and a higher stop-limit', () => {
+	const request = buildBracketOrder({
+		accountIdKey: 'A',
+		entry: new OrderBuilder().sellShort('AAPL', 10).limit(100),
+		takeProfit: 90,
+		stopLoss: 105,
+		stopLossLimit: 106,
+		exitOrderTerm: 'GOOD_UNTIL_CANCEL'
+	});
+
+	assert.deepStrictEqual(getActions(request), [ 'SELL_SHORT LIMIT', 'BUY_TO_COVER LIMIT', 'BUY_TO_COVER STOP_LIMIT' ]);
+	assert.strictEqual(request.order[2].stopPrice, 105);
+	assert.strictEqual(request.order[2].limitPrice, 106);
+	assert.strictEqual(request.order[2].orderTerm, 'GOOD_UNTIL_CANCEL');
+});
+
+test('rejects bracket prices on the wrong side', () => {
+	const long = new OrderBuilder().buy('AAPL', 10).limit(100);
+	const short = new OrderBuilder().sellShort('AAPL', 10).limit(100);
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: long, takeProfit: 95, stopLoss: 110 });
+	}, 'takeProfit must be above stopLoss for a long entry');
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: long, takeProfit: 99, stopLoss: 95 });
+	}, 'takeProfit must be above the entry price of 100');
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: long, takeProfit: 110, stopLoss: 101 });
+	}, 'stopLoss must be below the entry price of 100');
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: short, takeProfit: 110, stopLoss: 95 });
+	}, 'takeProfit must be below stopLoss for a short entry');
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: short, takeProfit: 101, stopLoss: 105 });
+	}, 'takeProfit must be below the entry price of 100');
+
+	assertInvalid(() => {
+		return buildBracketOrder({ accountIdKey: 'A', entry: short, takeProfit: 90, stopLoss: 99 });
+	}, 'stopLoss must be above the entry price of 100');
+});
+
+test('rejects bracket entries that don\'t open a position', () => {
+	assertInvalid(() => {
+		return buildBracketOrder({
+			accountIdKey: 'A',
+			entry: new OrderBuilder().sell('AAPL', 10).market(),
+			takeProfit: 90,
+			stopLoss: 110
+		});
+	}, 'The bracket entry must open a position with BUY, SELL_SHORT, BUY_OPEN, SELL_OPEN');
+
+	assertInvalid(() => {
+		return buildBracketOrder({
+			accountIdKey: 'A',
+			entry: new OrderBuilder().buy('AAPL', 10).market(),
+			takeProfit: -1,
+			stopLoss: 90
+		});
+	}, 'takeProfit must be a positive number');
+});
+
+test('builds contingent orders from their condition', () => {
+	const request = buildContingentOrder({
+		accountIdKey: 'A',
+		order: new OrderBuilder().buy('AAPL', 10).market(),
+		condition: {
+			symbol: 'spy',
+			type: 'CONTINGENT_LTE',
+			price: 400,
+			followPrice: 'LAST'
+		}
+	});
+
+	assert.strictEqual(request.orderType, 'CONTINGENT');
+	assert.strictEqual(request.order.length, 1);
+	assert.strictEqual(request.order[0].conditionSymbol, 'SPY');
+	assert.strictEqual(request.order[0].conditionSecurityType, 'EQ');
+	assert.strictEqual(request.order[0].conditionType, 'CONTINGENT_LTE');
+	assert.strictEqual(request.order[0].conditionPrice, 400);
+	assert.strictEqual(request.order[0].conditionFollowPrice, 'LAST');
+
+	assertInvalid(() => {
+		return buildContingentOrder({
+			accountIdKey: 'A',
+			order: new OrderBuilder().buy('AAPL', 10).market(),
+			condition: {
+				symbol: 'SPY',
+				type: 'CONTINGENT',
+				price: 0,
+				followPrice: 'MID'
+			}
+		});
+	}, 'condition price must be a positive number');
+});
+
+test('lists every invalid member of a group', () => {
+	assert.throws(() => {
+		return buildOcoOrder({
+			accountIdKey: 'A',
+			orders: [
+				new OrderBuilder().buy('AAPL', 10).limit(100),
+				new OrderBuilder().buy('MSFT', 0).limit(100)
+			]
+		});
+	}, (err) => {
+		return err instanceof ETradeValidationError && err.messages.length > 0 && err.messages.every((message) => {
+			return message.description.startsWith('orders[1]: ');
+		});
+	});
+
+	assertInvalid(() => {
+		return buildOrderGroup({
+			orderType: 'BRACKETED',
+			orders: []
+		}, {
+			accountIdKey: 'A'
+		});
+	}, 'Unsupported order group type BRACKETED');
+});
+
+test('parses each order group type', () => {
+	const details = [{
+		priceType: 'LIMIT',
+		conditionSymbol: 'SPY',
+		conditionSecurityType: 'EQ',
+		conditionType: 'CONTINGENT_GTE',
+		conditionPrice: '400',
+		conditionFollowPrice: 'ASK'
+	}, {
+		priceType: 'LIMIT'
+	}, {
+		priceType: 'STOP'
+	}];
+
+	const parse = (orderType) => {
+		return parseOrderGroup({
+			orderType: orderType,
+			OrderDetail: details
+		});
+	};
+
+	assert.deepStrictEqual(parse('ONE_CANCELS_ALL'), {
+		orderType: 'ONE_CANCELS_ALL',
+		orders: details
+	});
+
+	[ 'ONE_TRIGGERS_ALL', 'ONE_TRIGGERS_OCO' ].forEach((orderType) => {
+		assert.deepStrictEqual(parse(orderType), {
+			orderType: orderType,
+			trigger: details[0],
+			orders: details.slice(1)
+		});
+	});
+
+	assert.deepStrictEqual(parse('CONTINGENT'), {
+		orderType: 'CONTINGENT',
+		order: details[0],
+		condition: {
+			symbol: 'SPY',
+			securityType: 'EQ',
+			type: 'CONTINGENT_GTE',
+			price: 400,
+			followPrice: 'ASK'
+		}
+	});
+
+	assert.deepStrictEqual(parse('BRACKETED'), {
+		orderType: 'BRACKETED',
+		order: details[0],
+		orders: details.slice(1)
+	});
+
+	assert.strictEqual(parse('EQ'), undefined);
+	assert.strictEqual(parseOrderGroup({
+		orderType: 'ONE_CANCELS_ALL',
+		OrderDetail: []
+	}), undefined);
+});
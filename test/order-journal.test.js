@@ -0,0 +1,278 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+	ETrade,
+	ETradeNetworkError,
+	ETradeValidationError,
+	FileOrderJournal,
+	MemoryOrderJournal,
+	OrderBuilder,
+	createClientOrderId
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const createTempPath = (t) => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'e-trade-'));
+
+	t.after(() => {
+		fs.rmSync(dir, {
+			recursive: true,
+			force: true
+		});
+	});
+
+	return path.join(dir, 'journal.json');
+};
+
+const createEntry = (clientOrderId, submittedAt = Date.now()) => {
+	return {
+		accountIdKey: 'A',
+		clientOrderId: clientOrderId,
+		status: 'pending',
+		submittedAt: submittedAt
+	};
+};
+
+const createRequest = (clientOrderId = 'order1') => {
+	return {
+		...new OrderBuilder('A').clientOrderId(clientOrderId).buy('AAPL', 10).limit(150).build(),
+		previewIds: [{
+			previewId: 1
+		}]
+	};
+};
+
+const createPlaceResponse = (body, orderId) => {
+	return {
+		body: {
+			PlaceOrderResponse: {
+				orderType: body.PlaceOrderRequest.orderType,
+				clientOrderId: body.PlaceOrderRequest.clientOrderId,
+				Order: body.PlaceOrderRequest.Order,
+				OrderIds: [{
+					orderId: orderId
+				}]
+			}
+		}
+	};
+};
+
+const createClient = (server, orderJournal) => {
+	return new ETrade({
+		...server.options,
+		accessToken: 'token',
+		accessSecret: 'secret',
+		orderJournal: orderJournal
+	});
+};
+
+const countPlacements = (server) => {
+	return server.requests.filter(({ path }) => {
+		return path.endsWith('/place.json');
+	}).length;
+};
+
+/* Tests */
+test('creates unique client order ids within 20 characters', () => {
+	const ids = new Set();
+
+	for(let i = 0; i < 1000; ++i){
+		const id = createClientOrderId();
+
+		assert.match(id, /^[0-9a-z]{1,20}$/);
+
+		ids.add(id);
+	}
+
+	assert.strictEqual(ids.size, 1000);
+});
+
+test('memory journal saves, copies and removes entries', () => {
+	const journal = new MemoryOrderJournal();
+
+	journal.save(createEntry('a'));
+
+	const entry = journal.load('A', 'a');
+
+	entry.status = 'placed';
+
+	assert.strictEqual(journal.load('A', 'a').status, 'pending');
+	assert.strictEqual(journal.load('B', 'a'), undefined);
+
+	journal.remove('A', 'a');
+
+	assert.strictEqual(journal.load('A', 'a'), undefined);
+});
+
+test('memory journal prunes entries older than its max age', () => {
+	const journal = new MemoryOrderJournal(1000);
+
+	journal.save(createEntry('old', Date.now() - 2000));
+	journal.save(createEntry('new'));
+
+	assert.strictEqual(journal.load('A', 'old'), undefined);
+	assert.strictEqual(journal.load('A', 'new').clientOrderId, 'new');
+});
+
+test('file journal keeps every concurrent save', async (t) => {
+	const filePath = createTempPath(t);
+	const journal = new FileOrderJournal(filePath);
+
+	assert.strictEqual(await journal.load('A', 'a'), undefined);
+
+	await Promise.all([ 'a', 'b', 'c' ].map((clientOrderId) => {
+		return journal.save(createEntry(clientOrderId));
+	}));
+
+	await journal.remove('A', 'b');
+
+	const reopened = new FileOrderJournal(filePath);
+
+	assert.strictEqual((await reopened.load('A', 'a')).clientOrderId, 'a');
+	assert.strictEqual(await reopened.load('A', 'b'), undefined);
+	assert.strictEqual((await reopened.load('A', 'c')).clientOrderId, 'c');
+	assert.deepStrictEqual(fs.readdirSync(path.dirname(filePath)), [ 'journal.json' ]);
+});
+
+test('returns the stored response of an order already placed', async (t) => {
+	const server = await createServer(({ body }) => {
+		return createPlaceResponse(body, 101);
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, new MemoryOrderJournal());
+
+	const first = await eTrade.placeOrder(createRequest());
+	const second = await eTrade.placeOrder(createRequest());
+
+	assert.deepStrictEqual(second, first);
+	assert.strictEqual(countPlacements(server), 1);
+});
+
+test('finds an order whose placement ended without an answer', async (t) => {
+	const journal = new MemoryOrderJournal();
+	const server = await createServer(({ path, query }) => {
+		if(path.endsWith('/place.json')){
+			return {
+				destroy: true
+			};
+		}
+
+		assert.match(query.fromDate, /^\d{8}$/);
+
+		// The order E-Trade received before the connection dropped
+		return {
+			body: {
+				OrdersResponse: {
+					Order: [{
+						orderId: 7,
+						clientOrderId: 'other',
+						orderType: 'EQ',
+						OrderDetail: []
+					}, {
+						orderId: 8,
+						clientOrderId: 'order1',
+						orderType: 'EQ',
+						OrderDetail: [{
+							priceType: 'LIMIT'
+						}]
+					}]
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, journal);
+
+	await assert.rejects(eTrade.placeOrder(createRequest()), ETradeNetworkError);
+
+	assert.strictEqual(journal.load('A', 'order1').status, 'pending');
+
+	const found = await eTrade.placeOrder(createRequest());
+
+	assert.strictEqual(found.OrderIds[0].orderId, 8);
+	assert.strictEqual(found.clientOrderId, 'order1');
+	assert.strictEqual(countPlacements(server), 1);
+	assert.strictEqual(journal.load('A', 'order1').status, 'placed');
+	assert.deepStrictEqual(journal.load('A', 'order1').response, found);
+});
+
+test('places again when a pending order isn\'t found', async (t) => {
+	const journal = new MemoryOrderJournal();
+	const server = await createServer(({ path, body }) => {
+		if(path.endsWith('/place.json')){
+			return createPlaceResponse(body, 9);
+		}
+
+		return {
+			body: {
+				OrdersResponse: {
+					Order: []
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	journal.save(createEntry('order1'));
+
+	const response = await createClient(server, journal).placeOrder(createRequest());
+
+	assert.strictEqual(response.OrderIds[0].orderId, 9);
+	assert.strictEqual(countPlacements(server), 1);
+	assert.strictEqual(journal.load('A', 'order1').status, 'placed');
+});
+
+test('forgets orders E-Trade definitely rejected', async (t) => {
+	const journal = new MemoryOrderJournal();
+	const server = await createServer(() => {
+		return {
+			status: 400,
+			body: {
+				Error: {
+					code: 'parameter_rejected',
+					message: 'Invalid price'
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	await assert.rejects(createClient(server, journal).placeOrder(createRequest()), ETradeValidationError);
+
+	assert.strictEqual(journal.load('A', 'order1'), undefined);
+});
+
+test('shares one journaled placement between concurrent calls', async (t) => {
+	const server = await createServer(async ({ body }) => {
+		await new Promise((resolve) => {
+			setTimeout(resolve, 20);
+		});
+
+		return createPlaceResponse(body, 101);
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, new MemoryOrderJournal());
+
+	const [ first, second ] = await Promise.all([
+		eTrade.placeOrder(createRequest()),
+		eTrade.placeOrder(createRequest())
+	]);
+
+	assert.strictEqual(first, second);
+	assert.strictEqual(countPlacements(server), 1);
+});
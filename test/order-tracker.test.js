@@ -0,0 +1,88 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETradeTimeoutError,
+	OrderTracker
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const createClient = (Order = []) => {
+	return {
+		listOrders: async () => {
+			return {
+				Order: Order
+			};
+		}
+	};
+};
+
+/* Tests */
+test('stops tracking an order that never shows up once the wait times out', async () => {
+	const tracker = new OrderTracker(createClient(), 'XXXXXX', {
+		interval: 10
+	});
+
+	await assert.rejects(tracker.waitForFill(424242, {
+		timeout: 50
+	}), ETradeTimeoutError);
+
+	assert.deepStrictEqual(tracker.orderIds, []);
+});
+
+test('keeps tracking after a timeout while tracked explicitly or by another wait', async () => {
+	const tracker = new OrderTracker(createClient(), 'XXXXXX', {
+		interval: 10
+	});
+
+	tracker.track(1);
+
+	await assert.rejects(tracker.waitForFill(1, {
+		timeout: 30
+	}), ETradeTimeoutError);
+
+	const other = tracker.waitForCancel(2, {
+		timeout: 200
+	});
+
+	await assert.rejects(tracker.waitForFill(2, {
+		timeout: 30
+	}), ETradeTimeoutError);
+
+	assert.deepStrictEqual(tracker.orderIds, [ 1, 2 ]);
+
+	await assert.rejects(other, ETradeTimeoutError);
+
+	assert.deepStrictEqual(tracker.orderIds, [ 1 ]);
+
+	tracker.stop();
+});
+
+test('resolves once the order is executed', async () => {
+	const tracker = new OrderTracker(createClient([{
+		orderId: 7,
+		OrderDetail: [{
+			status: 'EXECUTED',
+			Instrument: [{
+				Product: {
+					symbol: 'AAPL'
+				},
+				orderAction: 'BUY',
+				orderedQuantity: 10,
+				filledQuantity: 10,
+				averageExecutionPrice: 150
+			}]
+		}]
+	}]), 'XXXXXX', {
+		interval: 10
+	});
+
+	const state = await tracker.waitForFill(7, {
+		timeout: 500
+	});
+
+	assert.strictEqual(state.legs[0].filledQuantity, 10);
+	assert.deepStrictEqual(tracker.orderIds, []);
+});
@@ -0,0 +1,292 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETrade,
+	ETradeOrderRejectedError,
+	OrderBuilder,
+	formatEasternDate
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const createRequest = (clientOrderId = 'order1') => {
+	return new OrderBuilder('A').clientOrderId(clientOrderId).buy('AAPL', 10).limit(150).build();
+};
+
+/**
+ * Answers order requests like E-Trade, `messages` are added to every preview and `orders` are listed.
+ */
+const createOrderServer = ({ messages = [], orders = [] } = {}) => {
+	let previewId = 0;
+	let orderId = 100;
+
+	return createServer(({ method, path, body }) => {
+		if(path.endsWith('/preview.json')){
+			return {
+				body: {
+					PreviewOrderResponse: {
+						orderType: body.PreviewOrderRequest.orderType,
+						clientOrderId: body.PreviewOrderRequest.clientOrderId,
+						Order: body.PreviewOrderRequest.Order.map((detail) => {
+							return {
+								...detail,
+								Messages: {
+									Message: messages
+								}
+							};
+						}),
+						PreviewIds: messages.some(({ type }) => {
+							return type === 'ERROR';
+						}) ? undefined : [{
+							previewId: ++previewId
+						}]
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/place.json')){
+			return {
+				body: {
+					PlaceOrderResponse: {
+						orderType: body.PlaceOrderRequest.orderType,
+						clientOrderId: body.PlaceOrderRequest.clientOrderId,
+						Order: body.PlaceOrderRequest.Order,
+						OrderIds: [{
+							orderId: method === 'PUT' ? +path.split('/')[5] : ++orderId
+						}]
+					}
+				}
+			};
+		}
+
+		if(path.endsWith('/orders.json')){
+			return {
+				body: {
+					OrdersResponse: {
+						Order: orders
+					}
+				}
+			};
+		}
+
+		return {
+			status: 404,
+			body: {}
+		};
+	});
+};
+
+const createOpenOrder = (orderId, detail) => {
+	return {
+		orderId: orderId,
+		orderType: 'EQ',
+		OrderDetail: [{
+			status: 'OPEN',
+			priceType: 'LIMIT',
+			limitPrice: 150,
+			stopPrice: 0,
+			orderTerm: 'GOOD_FOR_DAY',
+			marketSession: 'REGULAR',
+			Instrument: [{
+				Product: {
+					symbol: 'AAPL',
+					securityType: 'EQ'
+				},
+				orderAction: 'BUY',
+				quantityType: 'QUANTITY',
+				orderedQuantity: 10
+			}],
+			...detail
+		}]
+	};
+};
+
+const createClient = (server, options) => {
+	return new ETrade({
+		...server.options,
+		accessToken: 'token',
+		accessSecret: 'secret',
+		...options
+	});
+};
+
+const getPaths = (server) => {
+	return server.requests.map(({ method, path }) => {
+		return `${method} ${path.replace('/v1/accounts/A/', '')}`;
+	});
+};
+
+/* Tests */
+test('places the previewed order once approved', async (t) => {
+	const server = await createOrderServer();
+
+	t.after(server.close);
+
+	const request = createRequest();
+	const approvals = [];
+
+	const result = await createClient(server).submitOrder(request, (preview, approved) => {
+		approvals.push([ preview.PreviewIds[0].previewId, approved ]);
+
+		return Promise.resolve(true);
+	});
+
+	assert.strictEqual(result.approved, true);
+	assert.strictEqual(result.preview.PreviewIds[0].previewId, 1);
+	assert.strictEqual(result.order.OrderIds[0].orderId, 101);
+	assert.deepStrictEqual(approvals, [ [ 1, request ] ]);
+	assert.deepStrictEqual(getPaths(server), [ 'POST orders/preview.json', 'POST orders/place.json' ]);
+
+	const [ preview, place ] = server.requests;
+
+	assert.deepStrictEqual(place.body.PlaceOrderRequest.Order, preview.body.PreviewOrderRequest.Order);
+	assert.strictEqual(place.body.PlaceOrderRequest.clientOrderId, 'order1');
+	assert.deepStrictEqual(place.body.PlaceOrderRequest.PreviewIds, [{
+		previewId: 1
+	}]);
+});
+
+test('only previews orders that aren\'t approved', async (t) => {
+	const server = await createOrderServer({
+		messages: [{
+			code: 1042,
+			description: 'Order is outside market hours',
+			type: 'WARNING'
+		}]
+	});
+
+	t.after(server.close);
+
+	const result = await createClient(server).submitOrder(createRequest(), (preview) => {
+		return preview.Order[0].Messages.Message.length === 0;
+	});
+
+	assert.strictEqual(result.approved, false);
+	assert.strictEqual(result.order, undefined);
+	assert.deepStrictEqual(getPaths(server), [ 'POST orders/preview.json' ]);
+});
+
+test('never places previews with errors', async (t) => {
+	const server = await createOrderServer({
+		messages: [{
+			code: 1020,
+			description: 'Insufficient funds',
+			type: 'ERROR'
+		}]
+	});
+
+	t.after(server.close);
+
+	let asked = false;
+
+	await assert.rejects(createClient(server).submitOrder(createRequest(), () => {
+		asked = true;
+
+		return true;
+	}), (err) => {
+		return err instanceof ETradeOrderRejectedError && err.code === 1020 && err.message === 'Insufficient funds';
+	});
+
+	assert.strictEqual(asked, false);
+	assert.deepStrictEqual(getPaths(server), [ 'POST orders/preview.json' ]);
+});
+
+test('previews and places changes through the change endpoints', async (t) => {
+	const server = await createOrderServer();
+
+	t.after(server.close);
+
+	const request = new OrderBuilder('A').clientOrderId('order2').buy('AAPL', 10).limit(151).buildChange(55);
+
+	const { order } = await createClient(server).submitChangedOrder(request, () => {
+		return true;
+	});
+
+	assert.strictEqual(order.OrderIds[0].orderId, 55);
+	assert.deepStrictEqual(getPaths(server), [ 'PUT orders/55/change/preview.json', 'PUT orders/55/change/place.json' ]);
+});
+
+test('shares one submission between concurrent placements of an order', async (t) => {
+	const server = await createOrderServer();
+
+	t.after(server.close);
+
+	const eTrade = createClient(server);
+	const request = {
+		...createRequest(),
+		previewIds: [{
+			previewId: 1
+		}]
+	};
+
+	const [ first, second ] = await Promise.all([
+		eTrade.placeOrder(request),
+		eTrade.placeOrder(request)
+	]);
+
+	assert.strictEqual(first, second);
+	assert.deepStrictEqual(getPaths(server), [ 'POST orders/place.json' ]);
+});
+
+test('modifies an open order good till today', async (t) => {
+	const today = formatEasternDate();
+	const server = await createOrderServer({
+		orders: [ createOpenOrder(55, {
+			orderTerm: 'GOOD_TILL_DATE',
+			goodTillDate: today
+		}) ]
+	});
+
+	t.after(server.close);
+
+	const { previous, order } = await createClient(server).modifyOrder('A', 55, {
+		limitPrice: 151
+	});
+
+	assert.strictEqual(previous.orderId, 55);
+	assert.strictEqual(order.OrderIds[0].orderId, 55);
+
+	const change = server.requests.find(({ path }) => {
+		return path.endsWith('/55/change/preview.json');
+	}).body.PreviewOrderRequest.Order[0];
+
+	assert.strictEqual(change.limitPrice, 151);
+	assert.strictEqual(change.orderTerm, 'GOOD_TILL_DATE');
+	assert.strictEqual(change.goodTillDate, today);
+});
+
+test('counts a changed order\'s notional once towards the daily maximum', async (t) => {
+	const server = await createOrderServer({
+		orders: [ createOpenOrder(101) ]
+	});
+
+	t.after(server.close);
+
+	const eTrade = createClient(server, {
+		risk: {
+			maxDailyNotional: 2000
+		}
+	});
+
+	await eTrade.submitOrder(createRequest(), () => {
+		return true;
+	});
+
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 1500);
+
+	await eTrade.modifyOrder('A', 101, {
+		limitPrice: 160
+	});
+
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 1600);
+
+	await eTrade.modifyOrder('A', 101, {
+		limitPrice: 140
+	});
+
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 1400);
+});
@@ -0,0 +1,119 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	formatOptionDisplaySymbol,
+	formatOsiKey,
+	formatOsiSymbol,
+	formatQuoteSymbol,
+	fromEasternTime,
+	fromOptionProduct,
+	parseOptionDisplaySymbol,
+	parseOptionSymbol,
+	parseOsiSymbol,
+	parseQuoteSymbol,
+	toOptionContract,
+	toOptionProduct
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const CONTRACT = {
+	underlying: 'AAPL',
+	expiry: new Date(fromEasternTime(2022, 1, 21)),
+	callPut: 'CALL',
+	strike: 150
+};
+
+/* Tests */
+test('formats and parses OSI symbols', () => {
+	assert.strictEqual(formatOsiSymbol(CONTRACT), 'AAPL  220121C00150000');
+	assert.strictEqual(formatOsiKey(CONTRACT), 'AAPL--220121C00150000');
+	assert.strictEqual(formatOsiSymbol(CONTRACT, ''), 'AAPL220121C00150000');
+
+	[ 'AAPL  220121C00150000', 'AAPL--220121C00150000', 'AAPL220121C00150000', ' aapl  220121c00150000 ' ].forEach((symbol) => {
+		assert.deepStrictEqual(parseOsiSymbol(symbol), CONTRACT, symbol);
+	});
+});
+
+test('round trips puts, fractional strikes and six character roots', () => {
+	const contracts = [{
+		underlying: 'SPXW',
+		expiry: new Date(fromEasternTime(2024, 12, 31)),
+		callPut: 'PUT',
+		strike: 4567.5
+	}, {
+		underlying: 'BRK.B',
+		expiry: new Date(fromEasternTime(2025, 6, 20)),
+		callPut: 'CALL',
+		strike: 0.5
+	}, {
+		underlying: 'GOOGL1',
+		expiry: new Date(fromEasternTime(2023, 3, 17)),
+		callPut: 'PUT',
+		strike: 99999.999
+	}];
+
+	contracts.forEach((contract) => {
+		assert.deepStrictEqual(parseOsiSymbol(formatOsiSymbol(contract)), contract);
+		assert.deepStrictEqual(parseOsiSymbol(formatOsiKey(contract)), contract);
+		assert.deepStrictEqual(parseOptionDisplaySymbol(formatOptionDisplaySymbol(contract)), contract);
+		assert.deepStrictEqual(parseQuoteSymbol(formatQuoteSymbol(toOptionProduct(contract))), contract);
+		assert.deepStrictEqual(fromOptionProduct(toOptionProduct(contract)), contract);
+	});
+});
+
+test('expires at midnight US Eastern', () => {
+	assert.strictEqual(parseOsiSymbol('AAPL  220121C00150000').expiry.toISOString(), '2022-01-21T05:00:00.000Z');
+	assert.strictEqual(parseOsiSymbol('AAPL  220715C00150000').expiry.toISOString(), '2022-07-15T04:00:00.000Z');
+});
+
+test('parses E-Trade display symbols', () => {
+	assert.deepStrictEqual(parseOptionDisplaySymbol('AAPL Jan 21 \'22 $150 Call'), CONTRACT);
+	assert.deepStrictEqual(parseOptionDisplaySymbol('AMZN Mar 7 \'25 $1,250.50 Put'), {
+		underlying: 'AMZN',
+		expiry: new Date(fromEasternTime(2025, 3, 7)),
+		callPut: 'PUT',
+		strike: 1250.5
+	});
+	assert.strictEqual(formatOptionDisplaySymbol(CONTRACT), 'AAPL Jan 21 \'22 $150 Call');
+	assert.deepStrictEqual(parseOptionSymbol('AAPL Jan 21 \'22 $150 Call'), CONTRACT);
+	assert.deepStrictEqual(parseOptionSymbol('AAPL--220121C00150000'), CONTRACT);
+});
+
+test('formats products for getQuotes', () => {
+	assert.strictEqual(formatQuoteSymbol({
+		symbol: 'aapl',
+		securityType: 'EQ'
+	}), 'AAPL');
+	assert.strictEqual(formatQuoteSymbol(toOptionProduct(CONTRACT)), 'AAPL:2022:1:21:CALL:150');
+	assert.deepStrictEqual(parseQuoteSymbol('AAPL:22:1:21:CALL:150'), CONTRACT);
+});
+
+test('reads contracts from option chain entries', () => {
+	assert.deepStrictEqual(toOptionContract({
+		osiKey: 'AAPL--220121C00150000'
+	}), CONTRACT);
+	assert.deepStrictEqual(toOptionContract({
+		displaySymbol: 'AAPL Jan 21 \'22 $150 Call'
+	}), CONTRACT);
+	assert.strictEqual(toOptionContract(CONTRACT), CONTRACT);
+	assert.strictEqual(toOptionContract({}), undefined);
+});
+
+test('returns undefined for anything that isn\'t an option symbol', () => {
+	[ '', 'AAPL', 'AAPL  221321C00150000', 'AAPL  220132C00150000', 'AAPL  220121X00150000', 'AAPL  220121C0015000', 'TOOLONGX220121C00150000', 'AAPL Foo 21 \'22 $150 Call', 'AAPL Jan 21 \'22 $150 Straddle', 'AAPL:2022:13:21:CALL:150', 'AAPL:2022:1:21:CALL:' ].forEach((symbol) => {
+		assert.strictEqual(parseOptionSymbol(symbol), undefined, symbol);
+		assert.strictEqual(parseQuoteSymbol(symbol), undefined, symbol);
+	});
+
+	assert.strictEqual(fromOptionProduct({
+		symbol: 'AAPL',
+		securityType: 'EQ'
+	}), undefined);
+	assert.strictEqual(fromOptionProduct({
+		...toOptionProduct(CONTRACT),
+		callPut: 'STRADDLE'
+	}), undefined);
+});
@@ -0,0 +1,280 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETrade,
+	ETradeError,
+	OrderBuilder
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+/**
+ * A paper client filling orders against `quotes`, which tests move between orders.
+ */
+const createClient = (quotes, paper) => {
+	return new ETrade({
+		mode: 'paper',
+		key: 'key',
+		secret: 'secret',
+		accessToken: 'token',
+		accessSecret: 'secret',
+		paper: {
+			cash: 10000,
+			commission: 1,
+			priceFeed: () => {
+				return quotes;
+			},
+			...paper
+		}
+	});
+};
+
+const submit = async (eTrade, builder) => {
+	const { order } = await eTrade.submitOrder(builder.build(), () => {
+		return true;
+	});
+
+	return order;
+};
+
+const getPosition = async (eTrade) => {
+	const [ portfolio ] = await eTrade.viewPortfolio({
+		accountIdKey: 'A'
+	});
+
+	return portfolio.Position[0];
+};
+
+const getStatuses = async (eTrade) => {
+	const { Order } = await eTrade.listOrders({
+		accountIdKey: 'A'
+	});
+
+	return Order.map(({ orderId, OrderDetail }) => {
+		return [ orderId, OrderDetail[0].status ];
+	});
+};
+
+/* Tests */
+test('fills market orders at the ask and bid and accounts for cash and commissions', async () => {
+	const quotes = {
+		AAPL: {
+			bid: 99,
+			ask: 100,
+			last: 99.5
+		}
+	};
+
+	const eTrade = createClient(quotes);
+
+	const bought = await submit(eTrade, new OrderBuilder('A').buy('AAPL', 10).market());
+
+	assert.strictEqual(bought.Order[0].status, 'EXECUTED');
+	assert.strictEqual(eTrade.paper.getCash('A'), 8999);
+
+	let position = await getPosition(eTrade);
+
+	assert.strictEqual(position.quantity, 10);
+	assert.strictEqual(position.pricePaid, 100);
+	assert.strictEqual(position.price, 99.5);
+	assert.strictEqual(position.marketValue, 995);
+	assert.strictEqual(position.totalGain, -5);
+
+	quotes.AAPL = {
+		bid: 110,
+		ask: 111,
+		last: 110.5
+	};
+
+	await submit(eTrade, new OrderBuilder('A').sell('AAPL', 4).market());
+
+	assert.strictEqual(eTrade.paper.getCash('A'), 9438);
+
+	position = await getPosition(eTrade);
+
+	assert.strictEqual(position.quantity, 6);
+	assert.strictEqual(position.marketValue, 663);
+
+	const { Computed } = await eTrade.getAccountBalances({
+		accountIdKey: 'A'
+	});
+
+	assert.strictEqual(Computed.cashBalance, 9438);
+
+	await submit(eTrade, new OrderBuilder('A').sell('AAPL', 6).market());
+
+	assert.strictEqual(await getPosition(eTrade), undefined);
+	assert.strictEqual(eTrade.paper.getCash('A'), 10097);
+});
+
+test('fills limit orders once the quote reaches them', async () => {
+	const quotes = {
+		AAPL: {
+			bid: 99,
+			ask: 100,
+			last: 99.5
+		}
+	};
+
+	const eTrade = createClient(quotes);
+	const order = await submit(eTrade, new OrderBuilder('A').buy('AAPL', 10).limit(95));
+	const orderId = order.OrderIds[0].orderId;
+
+	assert.deepStrictEqual(await getStatuses(eTrade), [ [ orderId, 'OPEN' ] ]);
+	assert.strictEqual(eTrade.paper.getCash('A'), 10000);
+
+	quotes.AAPL = {
+		bid: 93,
+		ask: 94,
+		last: 93.5
+	};
+
+	assert.deepStrictEqual(await getStatuses(eTrade), [ [ orderId, 'EXECUTED' ] ]);
+	assert.strictEqual(eTrade.paper.getCash('A'), 10000 - 940 - 1);
+	assert.strictEqual((await getPosition(eTrade)).pricePaid, 94);
+});
+
+test('closes the oldest lots first', async () => {
+	const quotes = {
+		AAPL: {
+			bid: 100,
+			ask: 100,
+			last: 100
+		}
+	};
+
+	const eTrade = createClient(quotes, {
+		commission: 0
+	});
+
+	await submit(eTrade, new OrderBuilder('A').buy('AAPL', 5).market());
+
+	quotes.AAPL = {
+		bid: 110,
+		ask: 110,
+		last: 110
+	};
+
+	await submit(eTrade, new OrderBuilder('A').buy('AAPL', 5).market());
+	await submit(eTrade, new OrderBuilder('A').sell('AAPL', 7).market());
+
+	const position = await getPosition(eTrade);
+
+	assert.strictEqual(position.quantity, 3);
+	assert.strictEqual(position.totalCost, 330);
+
+	const { PositionLot } = await eTrade.viewLotsDetails({
+		accountIdKey: 'A',
+		positionId: position.positionId
+	});
+
+	assert.deepStrictEqual(PositionLot.map(({ price, remainingQty }) => {
+		return [ price, remainingQty ];
+	}), [ [ 110, 3 ] ]);
+	assert.strictEqual(eTrade.paper.getCash('A'), 10000 - 500 - 550 + 770);
+});
+
+test('rejects requests whose quotes fail without leaving an order behind', async () => {
+	let down = false;
+
+	const eTrade = createClient({}, {
+		priceFeed: () => {
+			if(down){
+				throw new Error('Price feed down');
+			}
+
+			return {
+				AAPL: {
+					bid: 99,
+					ask: 100,
+					last: 99.5
+				}
+			};
+		}
+	});
+
+	const request = new OrderBuilder('A').buy('AAPL', 10).limit(100).build();
+	const preview = await eTrade.previewOrder(request);
+
+	down = true;
+
+	await assert.rejects(eTrade.placeOrder({
+		...request,
+		previewIds: preview.PreviewIds
+	}), /Price feed down/);
+
+	down = false;
+
+	assert.deepStrictEqual(await getStatuses(eTrade), []);
+	assert.strictEqual(eTrade.paper.getCash('A'), 10000);
+});
+
+test('requests quotes with the client making the request', async (t) => {
+	const tokens = [];
+	const server = await createServer(({ query }) => {
+		tokens.push(query.oauth_token);
+
+		if(query.oauth_token !== 'user'){
+			return {
+				status: 401,
+				body: {
+					Error: {
+						code: 401,
+						message: 'oauth_problem=token_rejected'
+					}
+				}
+			};
+		}
+
+		return {
+			body: {
+				QuoteResponse: {
+					QuoteData: [{
+						Product: {
+							symbol: 'AAPL',
+							securityType: 'EQ'
+						},
+						All: {
+							bid: 99,
+							ask: 100,
+							lastTrade: 99.5
+						}
+					}]
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	// Like an `ETradePool`, the consumer level client has no access token of its own
+	const parent = new ETrade({
+		...server.options,
+		mode: 'paper',
+		// Market data comes from the production API
+		urls: {
+			...server.options.urls,
+			prod: server.options.urls.dev
+		},
+		paper: {
+			commission: 0
+		}
+	});
+
+	const client = parent.fork({
+		accessToken: 'user',
+		accessSecret: 'secret'
+	});
+
+	await submit(client, new OrderBuilder('A').buy('AAPL', 10).market());
+
+	assert.strictEqual(parent.paper.getCash('A'), 99000);
+	assert.deepStrictEqual(tokens, [ 'user', 'user', 'user' ]);
+
+	// A limit order left open for the sweep to quote
+	await submit(client, new OrderBuilder('A').buy('AAPL', 10).limit(90));
+	await assert.rejects(parent.paper.sweep('A'), ETradeError);
+});
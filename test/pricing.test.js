@@ -0,0 +1,302 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	fillOptionGreeks,
+	fromEasternTime,
+	getImpliedVolatility,
+	getTimeToExpiry,
+	priceOption,
+	priceOptionDetails
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const INPUT = {
+	spot: 100,
+	strike: 100,
+	time: 1,
+	volatility: 0.2,
+	rate: 0.05,
+	callPut: 'CALL'
+};
+
+const assertClose = (actual, expected, tolerance, message) => {
+	assert.ok(Math.abs(actual - expected) <= tolerance, `${message || ''} expected ${expected}, got ${actual}`);
+};
+
+const priceAt = (input) => {
+	return priceOption(input).price;
+};
+
+/* Tests */
+test('prices options at known Black-Scholes values', () => {
+	assertClose(priceAt(INPUT), 10.4506, 1e-4, 'ATM call');
+	assertClose(priceAt({
+		...INPUT,
+		callPut: 'PUT'
+	}), 5.5735, 1e-4, 'ATM put');
+
+	// Hull, Options, Futures and Other Derivatives, example 15.6
+	const hull = {
+		spot: 42,
+		strike: 40,
+		time: 0.5,
+		volatility: 0.2,
+		rate: 0.1
+	};
+
+	assertClose(priceAt({
+		...hull,
+		callPut: 'CALL'
+	}), 4.7594, 1e-4, 'Hull call');
+	assertClose(priceAt({
+		...hull,
+		callPut: 'PUT'
+	}), 0.8086, 1e-4, 'Hull put');
+});
+
+test('holds put-call parity', () => {
+	[ 80, 100, 125 ].forEach((strike) => {
+		[ 0, 0.03 ].forEach((dividendYield) => {
+			const input = {
+				...INPUT,
+				strike: strike,
+				time: 0.75,
+				volatility: 0.35,
+				dividendYield: dividendYield
+			};
+
+			const call = priceAt({
+				...input,
+				callPut: 'CALL'
+			});
+
+			const put = priceAt({
+				...input,
+				callPut: 'PUT'
+			});
+
+			const forward = input.spot * Math.exp(-dividendYield * input.time) - strike * Math.exp(-input.rate * input.time);
+
+			assertClose(call - put, forward, 1e-6, `strike ${strike} yield ${dividendYield}`);
+		});
+	});
+});
+
+test('computes greeks at known values', () => {
+	const call = priceOption(INPUT);
+	const put = priceOption({
+		...INPUT,
+		callPut: 'PUT'
+	});
+
+	assertClose(call.delta, 0.6368, 1e-4, 'call delta');
+	assertClose(put.delta, -0.3632, 1e-4, 'put delta');
+	assertClose(call.gamma, 0.018762, 1e-6, 'gamma');
+	assertClose(put.gamma, call.gamma, 1e-12, 'put gamma');
+	assertClose(call.vega, 0.37524, 1e-5, 'vega');
+	assertClose(put.vega, call.vega, 1e-12, 'put vega');
+	assertClose(call.theta, -6.4140 / 365, 1e-5, 'call theta');
+	assertClose(put.theta, -1.6579 / 365, 1e-5, 'put theta');
+	assertClose(call.rho, 0.53232, 1e-5, 'call rho');
+	assertClose(put.rho, -0.41890, 1e-5, 'put rho');
+	assert.strictEqual(call.iv, 0.2);
+});
+
+test('matches each greek to a finite difference of the price', () => {
+	const h = 1e-4;
+
+	[ 'CALL', 'PUT' ].forEach((callPut) => {
+		const input = {
+			...INPUT,
+			strike: 110,
+			time: 0.4,
+			volatility: 0.3,
+			dividendYield: 0.02,
+			callPut: callPut
+		};
+
+		const greeks = priceOption(input);
+
+		const bump = (key, by) => {
+			return (priceAt({
+				...input,
+				[key]: input[key] + by
+			}) - priceAt({
+				...input,
+				[key]: input[key] - by
+			})) / (2 * by);
+		};
+
+		assertClose(greeks.delta, bump('spot', h), 1e-5, `${callPut} delta`);
+		assertClose(greeks.gamma, (priceAt({
+			...input,
+			spot: input.spot + 0.01
+		}) - 2 * greeks.price + priceAt({
+			...input,
+			spot: input.spot - 0.01
+		})) / 1e-4, 1e-4, `${callPut} gamma`);
+		assertClose(greeks.vega, bump('volatility', h) / 100, 1e-5, `${callPut} vega`);
+		assertClose(greeks.rho, bump('rate', h) / 100, 1e-5, `${callPut} rho`);
+		assertClose(greeks.theta, -bump('time', h) / 365, 1e-5, `${callPut} theta`);
+	});
+});
+
+test('values expired options at intrinsic value', () => {
+	assert.deepStrictEqual(priceOption({
+		...INPUT,
+		spot: 105,
+		time: 0
+	}), {
+		price: 5,
+		delta: 1,
+		gamma: 0,
+		theta: 0,
+		vega: 0,
+		rho: 0,
+		iv: 0.2
+	});
+
+	const put = priceOption({
+		...INPUT,
+		spot: 105,
+		time: 0,
+		callPut: 'PUT'
+	});
+
+	assert.strictEqual(put.price, 0);
+	assert.strictEqual(put.delta, 0);
+});
+
+test('round trips implied volatility', () => {
+	[ 0.05, 0.2, 0.8, 2.5 ].forEach((volatility) => {
+		[ 'CALL', 'PUT' ].forEach((callPut) => {
+			[ 70, 100, 140 ].forEach((strike) => {
+				const input = {
+					...INPUT,
+					strike: strike,
+					time: 0.25,
+					callPut: callPut
+				};
+
+				const { price, vega } = priceOption({
+					...input,
+					volatility: volatility
+				});
+
+				// Far from the money at low volatility the price barely depends on volatility, any solution is as good
+				if(vega < 1e-3){
+					return;
+				}
+
+				const iv = getImpliedVolatility(price, input);
+
+				assertClose(priceAt({
+					...input,
+					volatility: iv
+				}), price, 1e-6, `${callPut} ${strike} at ${volatility}`);
+				assertClose(iv, volatility, 1e-3, `${callPut} ${strike} at ${volatility}`);
+			});
+		});
+	});
+});
+
+test('finds no implied volatility outside the model\'s range', () => {
+	const input = {
+		spot: 100,
+		strike: 90,
+		time: 0.5,
+		rate: 0,
+		callPut: 'CALL'
+	};
+
+	// Below intrinsic value
+	assert.strictEqual(getImpliedVolatility(9, input), undefined);
+
+	// Above the underlying, no volatility gets there
+	assert.strictEqual(getImpliedVolatility(101, input), undefined);
+
+	assert.strictEqual(getImpliedVolatility(0, input), undefined);
+	assert.strictEqual(getImpliedVolatility(-1, input), undefined);
+	assert.strictEqual(getImpliedVolatility(NaN, input), undefined);
+	assert.strictEqual(getImpliedVolatility(12, {
+		...input,
+		time: 0
+	}), undefined);
+});
+
+test('measures time to expiry until 16:00 Eastern on the expiration date', () => {
+	const expiry = fromEasternTime(2024, 1, 19);
+
+	assert.strictEqual(getTimeToExpiry(expiry, fromEasternTime(2024, 1, 19, 16)), 0);
+	assert.strictEqual(getTimeToExpiry(expiry, fromEasternTime(2024, 1, 20)), 0);
+	assertClose(getTimeToExpiry(expiry, fromEasternTime(2023, 1, 19, 16)), 1, 1e-12);
+});
+
+test('prices chain entries and fills their missing greeks', () => {
+	const now = fromEasternTime(2024, 1, 19, 16) - 0.25 * 365 * 24 * 60 * 60 * 1000;
+	const price = priceAt({
+		...INPUT,
+		time: 0.25,
+		volatility: 0.3
+	});
+
+	const call = {
+		osiKey: 'AAPL--240119C00100000',
+		bid: price - 0.05,
+		ask: price + 0.05,
+		lastPrice: 1
+	};
+
+	const valuation = priceOptionDetails(call, {
+		spot: 100,
+		rate: 0.05,
+		now: now
+	});
+
+	assertClose(valuation.iv, 0.3, 1e-4);
+	assertClose(valuation.price, price, 1e-12);
+
+	assert.strictEqual(priceOptionDetails({
+		...call,
+		osiKey: 'AAPL'
+	}, {
+		spot: 100
+	}), undefined);
+	assert.strictEqual(priceOptionDetails({
+		...call,
+		bid: 0,
+		ask: 0,
+		lastPrice: 0
+	}, {
+		spot: 100
+	}), undefined);
+
+	const quoted = {
+		osiKey: 'AAPL--240119P00100000',
+		bid: 1,
+		ask: 1.1,
+		OptionGreeks: {
+			delta: -0.42,
+			iv: 0.25,
+			currentValue: true
+		}
+	};
+
+	const chain = fillOptionGreeks({
+		nearPrice: 100,
+		OptionPair: [{
+			Call: call,
+			Put: quoted
+		}]
+	}, {
+		rate: 0.05,
+		now: now
+	});
+
+	assertClose(chain.OptionPair[0].Call.OptionGreeks.iv, 0.3, 1e-4);
+	assert.strictEqual(chain.OptionPair[0].Call.OptionGreeks.currentValue, true);
+	assert.strictEqual(chain.OptionPair[0].Put.OptionGreeks.delta, -0.42);
+});
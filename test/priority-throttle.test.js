@@ -0,0 +1,137 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const { ETrade } = require('../dist/e-trade-api');
+const { PriorityThrottle } = require('../dist/priority-throttle');
+const { createServer } = require('./helpers/server');
+
+/* Tests */
+test('runs waiting requests by priority, first come first served within one', async () => {
+	const throttle = new PriorityThrottle(1, 50);
+	const order = [];
+	const queued = [];
+
+	const run = (name, priority) => {
+		return throttle.acquire(() => {
+			order.push(name);
+		}, {
+			priority: priority,
+			onQueued: (count) => {
+				queued.push([ name, count ]);
+			}
+		});
+	};
+
+	await Promise.all([
+		run('first', 0),
+		run('low', 0),
+		run('high', 10),
+		run('medium', 5),
+		run('high2', 10)
+	]);
+
+	assert.deepStrictEqual(order, [ 'first', 'high', 'high2', 'medium', 'low' ]);
+	assert.deepStrictEqual(queued, [
+		[ 'low', 1 ],
+		[ 'high', 2 ],
+		[ 'medium', 3 ],
+		[ 'high2', 4 ]
+	]);
+	assert.strictEqual(throttle.queued, 0);
+});
+
+test('drops aborted requests from the queue', async () => {
+	const throttle = new PriorityThrottle(1, 50);
+	const controller = new AbortController();
+	const order = [];
+
+	const first = throttle.acquire(() => {
+		order.push('first');
+	});
+
+	const aborted = throttle.acquire(() => {
+		order.push('aborted');
+	}, {
+		signal: controller.signal
+	});
+
+	const last = throttle.acquire(() => {
+		order.push('last');
+	});
+
+	assert.strictEqual(throttle.queued, 2);
+
+	controller.abort();
+
+	assert.strictEqual(throttle.queued, 1);
+
+	await assert.rejects(aborted, /Aborted/);
+	await Promise.all([ first, last ]);
+
+	assert.deepStrictEqual(order, [ 'first', 'last' ]);
+});
+
+test('throttles each API module separately', async (t) => {
+	const server = await createServer(({ path }) => {
+		return {
+			body: path.includes('accounts') ? {
+				AccountListResponse: {
+					Accounts: {
+						Account: []
+					}
+				}
+			} : {
+				LookupResponse: {
+					Data: []
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = new ETrade({
+		...server.options,
+		accessToken: 'token',
+		accessSecret: 'secret',
+		buckets: {
+			accounts: {
+				limit: 1,
+				period: 200
+			}
+		}
+	});
+
+	assert.deepStrictEqual(eTrade.getRateLimit('accounts'), {
+		limit: 1,
+		period: 200
+	});
+	assert.deepStrictEqual(eTrade.getRateLimit('market'), {
+		limit: 10,
+		period: 1000
+	});
+
+	const throttled = [];
+
+	eTrade.on('throttled', ({ operation, bucket, priority }) => {
+		throttled.push([ operation, bucket, priority ]);
+	});
+
+	await eTrade.listAccounts();
+
+	const started = Date.now();
+
+	await eTrade.lookupProduct('AAPL');
+
+	assert.ok(Date.now() - started < 150);
+
+	await eTrade.listAccounts({
+		priority: 3
+	});
+
+	assert.deepStrictEqual(throttled, [
+		[ 'listAccounts', 'accounts', 3 ]
+	]);
+});
@@ -0,0 +1,210 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const { QuoteStream } = require('../dist/e-trade-api');
+
+/* Helpers */
+const createClient = (QuoteData) => {
+	const requested = [];
+
+	return {
+		requested: requested,
+		getRateLimit: () => {
+			return {
+				limit: 4,
+				period: 1000
+			};
+		},
+		getQuotes: async ({ symbols }) => {
+			requested.push(symbols);
+
+			return {
+				QuoteData: QuoteData,
+				errors: []
+			};
+		}
+	};
+};
+
+const nextQuote = (stream) => {
+	return new Promise((resolve, reject) => {
+		stream.once('quote', resolve);
+		stream.once('error', reject);
+	});
+};
+
+/* Tests */
+test('emits option quotes for symbols subscribed in getQuotes format', async () => {
+	const client = createClient([{
+		dateTimeUTC: 1700000000,
+		Product: {
+			symbol: 'AAPL',
+			securityType: 'OPTN',
+			callPut: 'CALL',
+			expiryYear: 2024,
+			expiryMonth: 1,
+			expiryDay: 19,
+			strikePrice: 190
+		}
+	}]);
+
+	const stream = new QuoteStream(client, {
+		symbols: [ 'AAPL:2024:1:19:CALL:190' ],
+		marketHours: false
+	});
+
+	const quote = nextQuote(stream);
+
+	stream.start();
+
+	try {
+		assert.strictEqual((await quote).Product.strikePrice, 190);
+		assert.deepStrictEqual(client.requested[0], [ 'AAPL:2024:1:19:CALL:190' ]);
+	}finally{
+		stream.stop();
+	}
+});
+
+test('matches option quotes to OSI subscriptions and drops unsubscribed ones', async () => {
+	const client = createClient([{
+		dateTimeUTC: 1700000000,
+		Product: {
+			symbol: 'AAPL',
+			securityType: 'OPTN',
+			callPut: 'PUT',
+			expiryYear: 2024,
+			expiryMonth: 1,
+			expiryDay: 19,
+			strikePrice: 180
+		}
+	}, {
+		dateTimeUTC: 1700000000,
+		Product: {
+			symbol: 'MSFT',
+			securityType: 'EQ'
+		}
+	}]);
+
+	const stream = new QuoteStream(client, {
+		symbols: [ 'AAPL  240119P00180000', 'MSFT' ],
+		marketHours: false
+	});
+
+	stream.unsubscribe('MSFT');
+
+	const quotes = [];
+
+	stream.on('quote', (quote) => {
+		quotes.push(quote);
+	});
+
+	stream.start();
+
+	await new Promise((resolve) => {
+		setTimeout(resolve, 50);
+	});
+
+	stream.stop();
+
+	assert.deepStrictEqual(quotes.map(({ Product }) => {
+		return Product.symbol;
+	}), [ 'AAPL' ]);
+});
+
+test('stops a stream the iterator started when the loop exits early', async () => {
+	const client = createClient([{
+		dateTimeUTC: 1700000000,
+		Product: {
+			symbol: 'MSFT',
+			securityType: 'EQ'
+		}
+	}]);
+
+	const stream = new QuoteStream(client, {
+		symbols: [ 'MSFT' ],
+		marketHours: false
+	});
+
+	for await (const quote of stream){
+		assert.strictEqual(quote.Product.symbol, 'MSFT');
+
+		break;
+	}
+
+	assert.strictEqual(stream.running, false);
+});
+
+test('leaves a stream started elsewhere running when the loop exits early', async () => {
+	const client = createClient([{
+		dateTimeUTC: 1700000000,
+		Product: {
+			symbol: 'MSFT',
+			securityType: 'EQ'
+		}
+	}]);
+
+	const stream = new QuoteStream(client, {
+		symbols: [ 'MSFT' ],
+		marketHours: false
+	}).start();
+
+	try {
+		for await (const quote of stream){
+			assert.strictEqual(quote.Product.symbol, 'MSFT');
+
+			break;
+		}
+
+		assert.strictEqual(stream.running, true);
+		assert.strictEqual(stream.listenerCount('quote'), 0);
+	}finally{
+		stream.stop();
+	}
+});
+
+test('settles every pending next() call', async () => {
+	const client = createClient([]);
+
+	const stream = new QuoteStream(client, {
+		symbols: [ 'MSFT' ],
+		marketHours: false
+	});
+
+	const iterator = stream[Symbol.asyncIterator]();
+
+	const first = iterator.next();
+	const second = iterator.next();
+
+	stream.emit('quote', {
+		Product: {
+			symbol: 'MSFT'
+		}
+	});
+
+	assert.strictEqual((await first).value.Product.symbol, 'MSFT');
+
+	await iterator.return();
+
+	assert.deepStrictEqual(await second, {
+		value: undefined,
+		done: true
+	});
+	assert.strictEqual(stream.running, false);
+});
+
+test('stops the stream when the iterator is thrown into', async () => {
+	const stream = new QuoteStream(createClient([]), {
+		symbols: [ 'MSFT' ],
+		marketHours: false
+	});
+
+	const iterator = stream[Symbol.asyncIterator]();
+	const pending = iterator.next();
+
+	await assert.rejects(iterator.throw(new Error('consumer failed')), /consumer failed/);
+
+	assert.strictEqual((await pending).done, true);
+	assert.strictEqual(stream.running, false);
+});
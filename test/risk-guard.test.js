@@ -0,0 +1,139 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETrade,
+	ETradeRiskError,
+	MemoryOrderJournal
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const createClient = (journal, risk = { maxQuantity: 1000 }) => {
+	return new ETrade({
+		mode: 'paper',
+		key: 'key',
+		secret: 'secret',
+		accessToken: 'token',
+		accessSecret: 'secret',
+		orderJournal: journal,
+		risk: risk,
+		paper: {
+			priceFeed: () => {
+				return {
+					AAPL: {
+						bid: 99.9,
+						ask: 100,
+						last: 100
+					}
+				};
+			}
+		}
+	});
+};
+
+const createOrder = (clientOrderId, quantity, orderAction = 'BUY') => {
+	return {
+		accountIdKey: 'A',
+		orderType: 'EQ',
+		clientOrderId: clientOrderId,
+		order: [{
+			priceType: 'MARKET',
+			orderTerm: 'GOOD_FOR_DAY',
+			marketSession: 'REGULAR',
+			Instrument: [{
+				Product: {
+					symbol: 'AAPL',
+					securityType: 'EQ'
+				},
+				orderAction: orderAction,
+				quantityType: 'QUANTITY',
+				quantity: quantity
+			}]
+		}]
+	};
+};
+
+/* Tests */
+test('leaves no journal entry for an order rejected by the risk limits', async () => {
+	const journal = new MemoryOrderJournal();
+	const eTrade = createClient(journal);
+
+	await assert.rejects(eTrade.placeOrder({
+		...createOrder('riskx', 5000),
+		previewIds: [{
+			previewId: 1
+		}]
+	}), ETradeRiskError);
+
+	assert.strictEqual(await journal.load('A', 'riskx'), undefined);
+});
+
+test('journals orders within the risk limits once placed', async () => {
+	const journal = new MemoryOrderJournal();
+	const eTrade = createClient(journal);
+
+	const { order } = await eTrade.submitOrder(createOrder('riskok', 10), () => {
+		return true;
+	});
+
+	const entry = await journal.load('A', 'riskok');
+
+	assert.strictEqual(entry.status, 'placed');
+	assert.strictEqual(entry.response.OrderIds[0].orderId, order.OrderIds[0].orderId);
+});
+
+test('checks orders that only close positions against every limit', async () => {
+	const eTrade = createClient(new MemoryOrderJournal(), {
+		maxQuantity: 10,
+		maxOrderNotional: 1000,
+		denySymbols: [ 'AAPL' ]
+	});
+
+	const request = createOrder('risksell', 1000000, 'SELL');
+
+	request.order[0].priceType = 'LIMIT';
+	request.order[0].limitPrice = 1;
+
+	await assert.rejects(eTrade.submitOrder(request, () => {
+		return true;
+	}), (err) => {
+		return err instanceof ETradeRiskError && err.messages.map(({ description }) => {
+			return description;
+		}).join('; ') === [
+			'AAPL is on the denied symbols list',
+			'Quantity 1000000 of AAPL exceeds the maximum of 10',
+			'Order notional of 1000000.00 exceeds the maximum of 1000'
+		].join('; ');
+	});
+
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 0);
+});
+
+test('prices paper orders from the paper broker\'s quotes', async () => {
+	const eTrade = createClient(new MemoryOrderJournal(), {
+		maxOrderNotional: 5000,
+		collar: 0.05
+	});
+
+	const { order } = await eTrade.submitOrder(createOrder('riskfeed', 10), () => {
+		return true;
+	});
+
+	assert.strictEqual(order.Order[0].Instrument[0].averageExecutionPrice, 100);
+	assert.strictEqual(eTrade.risk.getDailyNotional('A'), 1000);
+
+	const collared = createOrder('riskcollar', 10);
+
+	collared.order[0].priceType = 'LIMIT';
+	collared.order[0].limitPrice = 110;
+
+	await assert.rejects(eTrade.previewOrder(collared), (err) => {
+		return err instanceof ETradeRiskError && err.code === 'COLLAR' && err.message.includes('ask of 100');
+	});
+
+	await assert.rejects(eTrade.previewOrder(createOrder('risknotional', 60)), (err) => {
+		return err instanceof ETradeRiskError && err.code === 'MAX_ORDER_NOTIONAL' && err.message.includes('6000.00');
+	});
+});
@@ -0,0 +1,184 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const { EventEmitter } = require('events');
+const {
+	ETrade,
+	SessionManager
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const delay = (ms) => {
+	return new Promise((resolve) => {
+		setTimeout(resolve, ms);
+	});
+};
+
+const createClient = (renewAccessToken) => {
+	const client = new EventEmitter();
+	const events = [];
+
+	[ 'sessionExpiring', 'sessionExpired', 'sessionRenewFailed' ].forEach((name) => {
+		client.on(name, (event) => {
+			events.push([ name, event && event.reason ]);
+		});
+	});
+
+	client.events = events;
+	client.renewAccessToken = renewAccessToken;
+
+	return client;
+};
+
+/* Tests */
+test('expires at the next US Eastern midnight after the token was issued', () => {
+	const session = new SessionManager(createClient());
+
+	session.issuedAt = Date.UTC(2024, 0, 10, 15);
+	session.lastActivityAt = Date.UTC(2024, 0, 10, 16);
+
+	assert.strictEqual(session.expiresAt, Date.UTC(2024, 0, 11, 5));
+	assert.strictEqual(session.idleExpiresAt, Date.UTC(2024, 0, 10, 18));
+
+	session.issuedAt = Date.UTC(2024, 6, 10, 3);
+
+	assert.strictEqual(session.expiresAt, Date.UTC(2024, 6, 10, 4));
+});
+
+test('expires right away when the token was issued before the last midnight', () => {
+	const client = createClient();
+	const session = new SessionManager(client);
+
+	session.start(Date.now() - 2 * 24 * 60 * 60 * 1000);
+
+	assert.strictEqual(session.active, false);
+	assert.deepStrictEqual(client.events, [
+		[ 'sessionExpired', 'midnight' ]
+	]);
+});
+
+test('warns before going idle, then expires', async () => {
+	const client = createClient();
+	const session = new SessionManager(client, {
+		idleTimeout: 100,
+		warnBefore: 60
+	});
+
+	session.start();
+
+	await delay(70);
+
+	assert.deepStrictEqual(client.events, [
+		[ 'sessionExpiring', 'idle' ]
+	]);
+
+	await delay(80);
+
+	assert.deepStrictEqual(client.events, [
+		[ 'sessionExpiring', 'idle' ],
+		[ 'sessionExpired', 'idle' ]
+	]);
+	assert.strictEqual(session.active, false);
+});
+
+test('activity pushes back the idle expiry', async () => {
+	const client = createClient();
+	const session = new SessionManager(client, {
+		idleTimeout: 100,
+		warnBefore: 10
+	});
+
+	session.start();
+
+	await delay(60);
+
+	session.touch();
+
+	await delay(60);
+
+	assert.strictEqual(session.active, true);
+	assert.deepStrictEqual(client.events, []);
+
+	session.stop();
+});
+
+test('keeps the session alive by renewing before it goes idle', async () => {
+	let renewals = 0;
+
+	const client = createClient(async () => {
+		++renewals;
+
+		session.touch();
+	});
+
+	const session = new SessionManager(client, {
+		keepAlive: true,
+		idleTimeout: 100,
+		renewBefore: 80
+	});
+
+	session.start();
+
+	await delay(150);
+
+	assert.ok(renewals >= 2);
+	assert.strictEqual(session.active, true);
+	assert.deepStrictEqual(client.events, []);
+
+	session.stop();
+});
+
+test('reports failed renewals', async () => {
+	const client = createClient(async () => {
+		throw new Error('renew failed');
+	});
+
+	const session = new SessionManager(client, {
+		keepAlive: true,
+		idleTimeout: 100,
+		renewBefore: 80
+	});
+
+	session.start();
+
+	await delay(50);
+
+	assert.deepStrictEqual(client.events, [
+		[ 'sessionRenewFailed', undefined ]
+	]);
+
+	session.stop();
+});
+
+test('expires the session when E-Trade rejects the access token', async (t) => {
+	const server = await createServer(() => {
+		return {
+			status: 401,
+			body: 'oauth_problem=token_expired'
+		};
+	});
+
+	t.after(server.close);
+
+	const eTrade = new ETrade({
+		...server.options,
+		accessToken: 'token',
+		accessSecret: 'secret'
+	});
+
+	const expired = [];
+
+	eTrade.on('sessionExpired', ({ reason }) => {
+		expired.push(reason);
+	});
+
+	assert.strictEqual(eTrade.session.active, true);
+
+	await assert.rejects(eTrade.listAccounts());
+
+	assert.strictEqual(eTrade.session.active, false);
+	assert.deepStrictEqual(expired, [ 'rejected' ]);
+});
@@ -0,0 +1,213 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const {
+	ETradeValidationError,
+	buildButterfly,
+	buildCalendarSpread,
+	buildCoveredCall,
+	buildIronCondor,
+	buildStraddle,
+	buildStrangle,
+	buildVerticalSpread
+} = require('../dist/e-trade-api');
+
+/* Helpers */
+const OPTIONS = {
+	accountIdKey: 'A',
+	clientOrderId: 'strategy',
+	quantity: 2,
+	limitPrice: 1.25
+};
+
+const option = (strike, callPut = 'C', expiry = '240119') => {
+	return `SPY--${expiry}${callPut}${('' + strike * 1000).padStart(8, '0')}`;
+};
+
+/**
+ * Each leg as `action quantity strike callPut`.
+ */
+const getLegs = (request) => {
+	return request.order[0].Instrument.map(({ Product, orderAction, quantity }) => {
+		return Product.securityType === 'EQ' ? `${orderAction} ${quantity} ${Product.symbol}` : `${orderAction} ${quantity} ${Product.strikePrice}${Product.callPut[0]}`;
+	});
+};
+
+/* Tests */
+test('builds vertical spreads for each direction and option type', () => {
+	const buyCalls = buildVerticalSpread({
+		...OPTIONS,
+		lower: option(400),
+		upper: option(410),
+		direction: 'BUY'
+	});
+
+	assert.strictEqual(buyCalls.orderType, 'SPREADS');
+	assert.strictEqual(buyCalls.clientOrderId, 'strategy');
+	assert.strictEqual(buyCalls.order[0].priceType, 'NET_DEBIT');
+	assert.strictEqual(buyCalls.order[0].limitPrice, 1.25);
+	assert.deepStrictEqual(getLegs(buyCalls), [ 'BUY_OPEN 2 400C', 'SELL_OPEN 2 410C' ]);
+
+	const sellPuts = buildVerticalSpread({
+		...OPTIONS,
+		lower: option(400, 'P'),
+		upper: option(410, 'P'),
+		direction: 'SELL'
+	});
+
+	assert.strictEqual(sellPuts.order[0].priceType, 'NET_CREDIT');
+	assert.deepStrictEqual(getLegs(sellPuts), [ 'BUY_OPEN 2 400P', 'SELL_OPEN 2 410P' ]);
+
+	const closing = buildVerticalSpread({
+		...OPTIONS,
+		lower: option(400, 'P'),
+		upper: option(410, 'P'),
+		direction: 'BUY',
+		position: 'CLOSE',
+		limitPrice: 0
+	});
+
+	assert.strictEqual(closing.order[0].priceType, 'NET_EVEN');
+	assert.deepStrictEqual(getLegs(closing), [ 'SELL_CLOSE 2 400P', 'BUY_CLOSE 2 410P' ]);
+});
+
+test('builds calendar spreads', () => {
+	const request = buildCalendarSpread({
+		...OPTIONS,
+		near: option(400, 'C', '240119'),
+		far: option(400, 'C', '240216'),
+		direction: 'BUY'
+	});
+
+	assert.strictEqual(request.order[0].priceType, 'NET_DEBIT');
+	assert.deepStrictEqual(request.order[0].Instrument.map(({ Product, orderAction }) => {
+		return [ orderAction, Product.expiryMonth ];
+	}), [
+		[ 'SELL_OPEN', 1 ],
+		[ 'BUY_OPEN', 2 ]
+	]);
+});
+
+test('builds straddles and strangles', () => {
+	const straddle = buildStraddle({
+		...OPTIONS,
+		call: option(400),
+		put: option(400, 'P'),
+		direction: 'SELL'
+	});
+
+	assert.strictEqual(straddle.order[0].priceType, 'NET_CREDIT');
+	assert.deepStrictEqual(getLegs(straddle), [ 'SELL_OPEN 2 400C', 'SELL_OPEN 2 400P' ]);
+
+	const strangle = buildStrangle({
+		...OPTIONS,
+		call: option(410),
+		put: option(390, 'P'),
+		direction: 'BUY'
+	});
+
+	assert.strictEqual(strangle.order[0].priceType, 'NET_DEBIT');
+	assert.deepStrictEqual(getLegs(strangle), [ 'BUY_OPEN 2 390P', 'BUY_OPEN 2 410C' ]);
+});
+
+test('builds iron condors and butterflies', () => {
+	const condor = buildIronCondor({
+		...OPTIONS,
+		lowerPut: option(380, 'P'),
+		upperPut: option(390, 'P'),
+		lowerCall: option(410),
+		upperCall: option(420),
+		direction: 'SELL'
+	});
+
+	assert.strictEqual(condor.orderType, 'IRON_CONDOR');
+	assert.strictEqual(condor.order[0].priceType, 'NET_CREDIT');
+	assert.deepStrictEqual(getLegs(condor), [ 'BUY_OPEN 2 380P', 'SELL_OPEN 2 390P', 'SELL_OPEN 2 410C', 'BUY_OPEN 2 420C' ]);
+
+	const butterfly = buildButterfly({
+		...OPTIONS,
+		lower: option(390),
+		middle: option(400),
+		upper: option(410),
+		direction: 'BUY'
+	});
+
+	assert.strictEqual(butterfly.orderType, 'BUTTERFLY');
+	assert.strictEqual(butterfly.order[0].priceType, 'NET_DEBIT');
+	assert.deepStrictEqual(getLegs(butterfly), [ 'BUY_OPEN 2 390C', 'SELL_OPEN 4 400C', 'BUY_OPEN 2 410C' ]);
+});
+
+test('builds covered calls with 100 shares per call', () => {
+	const request = buildCoveredCall({
+		...OPTIONS,
+		call: option(410)
+	});
+
+	assert.strictEqual(request.orderType, 'BUY_WRITES');
+	assert.strictEqual(request.order[0].priceType, 'NET_DEBIT');
+	assert.deepStrictEqual(getLegs(request), [ 'BUY 200 SPY', 'SELL_OPEN 2 410C' ]);
+});
+
+test('accepts option chain entries and generates client order ids', () => {
+	const request = buildVerticalSpread({
+		...OPTIONS,
+		clientOrderId: undefined,
+		lower: {
+			displaySymbol: 'SPY Jan 19 \'24 $400 Call'
+		},
+		upper: {
+			osiKey: option(410)
+		},
+		direction: 'BUY'
+	});
+
+	assert.ok(request.clientOrderId);
+	assert.deepStrictEqual(getLegs(request), [ 'BUY_OPEN 2 400C', 'SELL_OPEN 2 410C' ]);
+});
+
+test('rejects legs that don\'t make up the strategy', () => {
+	const cases = [
+		() => {
+			return buildVerticalSpread({ ...OPTIONS, lower: option(410), upper: option(400), direction: 'BUY' });
+		},
+		() => {
+			return buildVerticalSpread({ ...OPTIONS, lower: option(400), upper: option(410, 'P'), direction: 'BUY' });
+		},
+		() => {
+			return buildVerticalSpread({ ...OPTIONS, lower: option(400), upper: option(410, 'C', '240216'), direction: 'BUY' });
+		},
+		() => {
+			return buildVerticalSpread({ ...OPTIONS, lower: 'SPY', upper: option(410), direction: 'BUY' });
+		},
+		() => {
+			return buildCalendarSpread({ ...OPTIONS, near: option(400, 'C', '240216'), far: option(400), direction: 'BUY' });
+		},
+		() => {
+			return buildStraddle({ ...OPTIONS, call: option(400), put: option(410, 'P'), direction: 'BUY' });
+		},
+		() => {
+			return buildStrangle({ ...OPTIONS, call: option(390), put: option(410, 'P'), direction: 'BUY' });
+		},
+		() => {
+			return buildIronCondor({ ...OPTIONS, lowerPut: option(380, 'P'), upperPut: option(390), lowerCall: option(410), upperCall: option(420), direction: 'SELL' });
+		},
+		() => {
+			return buildButterfly({ ...OPTIONS, lower: option(390), middle: option(400, 'P'), upper: option(410), direction: 'BUY' });
+		},
+		() => {
+			return buildCoveredCall({ ...OPTIONS, call: option(410, 'P') });
+		},
+		() => {
+			return buildStraddle({ ...OPTIONS, quantity: 1.5, call: option(400), put: option(400, 'P'), direction: 'BUY' });
+		},
+		() => {
+			return buildStraddle({ ...OPTIONS, limitPrice: -1, call: option(400), put: option(400, 'P'), direction: 'BUY' });
+		}
+	];
+
+	cases.forEach((build, i) => {
+		assert.throws(build, ETradeValidationError, `case ${i}`);
+	});
+});
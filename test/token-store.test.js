@@ -0,0 +1,143 @@
+'use strict';
+
+/* Dependencies */
+const test = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {
+	ETrade,
+	FileTokenStore,
+	MemoryTokenStore
+} = require('../dist/e-trade-api');
+const { createServer } = require('./helpers/server');
+
+/* Helpers */
+const createTempPath = (t) => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'e-trade-'));
+
+	t.after(() => {
+		fs.rmSync(dir, {
+			recursive: true,
+			force: true
+		});
+	});
+
+	return path.join(dir, 'token.json');
+};
+
+/* Tests */
+test('memory store hands out copies of the saved token', () => {
+	const store = new MemoryTokenStore({
+		accessToken: 'a',
+		accessSecret: 'b'
+	});
+
+	const token = store.load();
+
+	token.accessToken = 'changed';
+
+	assert.strictEqual(store.load().accessToken, 'a');
+
+	store.clear();
+
+	assert.strictEqual(store.load(), undefined);
+});
+
+test('file store round trips a token and clears it', async (t) => {
+	const store = new FileTokenStore(createTempPath(t));
+
+	assert.strictEqual(await store.load(), undefined);
+
+	await store.save({
+		accessToken: 'a',
+		accessSecret: 'b',
+		issuedAt: 1
+	});
+
+	assert.deepStrictEqual(await store.load(), {
+		accessToken: 'a',
+		accessSecret: 'b',
+		issuedAt: 1
+	});
+
+	assert.deepStrictEqual(fs.readdirSync(path.dirname(store.path)), [ 'token.json' ]);
+
+	await store.clear();
+	await store.clear();
+
+	assert.strictEqual(await store.load(), undefined);
+});
+
+test('file store ignores empty and incomplete token files', async (t) => {
+	const store = new FileTokenStore(createTempPath(t));
+
+	fs.writeFileSync(store.path, '  \n');
+
+	assert.strictEqual(await store.load(), undefined);
+
+	fs.writeFileSync(store.path, JSON.stringify({
+		accessToken: 'a'
+	}));
+
+	assert.strictEqual(await store.load(), undefined);
+
+	fs.writeFileSync(store.path, '{');
+
+	await assert.rejects(store.load(), SyntaxError);
+});
+
+test('signs requests with the stored token and saves new access tokens', async (t) => {
+	const server = await createServer(({ path }) => {
+		if(path === '/oauth/access_token'){
+			return {
+				body: 'oauth_token=new&oauth_token_secret=newsecret'
+			};
+		}
+
+		return {
+			body: {
+				AccountListResponse: {
+					Accounts: {
+						Account: []
+					}
+				}
+			}
+		};
+	});
+
+	t.after(server.close);
+
+	const store = new MemoryTokenStore({
+		accessToken: 'stored',
+		accessSecret: 'storedsecret',
+		issuedAt: Date.now()
+	});
+
+	const eTrade = new ETrade({
+		...server.options,
+		tokenStore: store
+	});
+
+	await eTrade.listAccounts();
+
+	assert.strictEqual(server.requests[0].query.oauth_token, 'stored');
+	assert.strictEqual(eTrade.session.active, true);
+
+	await eTrade.getAccessToken({
+		key: 'request',
+		secret: 'requestsecret',
+		code: 'verifier'
+	});
+
+	const saved = store.load();
+
+	assert.strictEqual(saved.accessToken, 'new');
+	assert.strictEqual(saved.accessSecret, 'newsecret');
+	assert.ok(saved.issuedAt > 0);
+
+	await eTrade.listAccounts();
+
+	assert.strictEqual(server.requests[2].query.oauth_token, 'new');
+});